@@ -1,6 +1,9 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import SceneSelector from './components/SceneSelector';
 import ScenePreview from './components/ScenePreview';
+import GrandTour from './components/GrandTour';
+import Kiosk from './components/Kiosk';
+import SceneBuilder from './components/SceneBuilder';
 import './App.css';
 
 function App() {
@@ -11,6 +14,9 @@ function App() {
           <Route path="/" element={<SceneSelector />} />
           <Route path="/spendesk-3d-workshop" element={<SceneSelector />} />
           <Route path="/scene/:sceneId" element={<ScenePreview />} />
+          <Route path="/tour" element={<GrandTour />} />
+          <Route path="/kiosk" element={<Kiosk />} />
+          <Route path="/builder" element={<SceneBuilder />} />
         </Routes>
       </div>
     </Router>
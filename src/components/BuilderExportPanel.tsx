@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { SCENE_REGISTRY } from '../scenes/registry';
+import type { BuilderDocument } from '../utils/builderDocument';
+import {
+  generateSceneFiles,
+  isValidSceneId,
+  type SceneFiles,
+} from '../utils/builderExport';
+import { downloadBlob } from '../utils/download';
+import { createZip } from '../utils/zip';
+
+interface BuilderExportPanelProps {
+  draft: BuilderDocument;
+  onClose: () => void;
+}
+
+const buttonStyle = (backgroundColor: string) => ({
+  padding: '4px 8px',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+});
+
+/**
+ * Generated scene folder, to download as a zip or copy file by file
+ */
+export default function BuilderExportPanel({
+  draft,
+  onClose,
+}: BuilderExportPanelProps) {
+  const [fileName, setFileName] = useState<keyof SceneFiles>('index.ts');
+  const [copied, setCopied] = useState(false);
+
+  const files = generateSceneFiles(draft);
+  const { sceneId } = draft;
+
+  const problems: string[] = [];
+  if (!isValidSceneId(sceneId)) {
+    problems.push(
+      `"${sceneId}" is not a valid scene ID: use lowercase letters, digits and dashes`
+    );
+  }
+  if (SCENE_REGISTRY.some((entry) => entry.sceneId === sceneId)) {
+    problems.push(
+      `A scene named "${sceneId}" already exists, pick another ID to avoid overwriting it`
+    );
+  }
+  if (draft.items.length === 0) {
+    problems.push('The scene is empty');
+  }
+
+  const download = () => {
+    const encoder = new TextEncoder();
+    const zip = createZip(
+      Object.entries(files).map(([name, content]) => ({
+        name: `${sceneId}/${name}`,
+        data: encoder.encode(content),
+      }))
+    );
+    downloadBlob(zip, `${sceneId}.zip`);
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(files[fileName]);
+      setCopied(true);
+    } catch (error) {
+      // Clipboard access can be denied, the text area is still there
+      console.warn('Could not copy file to clipboard:', error);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        width: 'min(720px, calc(100% - 40px))',
+        maxHeight: 'calc(100% - 40px)',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: 'rgba(0, 0, 0, 0.9)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        boxSizing: 'border-box',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          marginBottom: '10px',
+        }}
+      >
+        <strong>Export src/scenes/{sceneId}/</strong>
+        <button onClick={onClose} style={buttonStyle('#666')}>
+          Close
+        </button>
+      </div>
+
+      {problems.length > 0 && (
+        <div
+          style={{ color: '#ffc107', fontSize: '12px', marginBottom: '10px' }}
+        >
+          {problems.map((problem) => (
+            <div key={problem}>⚠ {problem}</div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ fontSize: '12px', opacity: 0.8, marginBottom: '10px' }}>
+        Unzip into <code>src/scenes/</code>, or create the folder and paste both
+        files. The registry picks the scene up automatically.
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '6px' }}>
+        {(Object.keys(files) as (keyof SceneFiles)[]).map((name) => (
+          <button
+            key={name}
+            onClick={() => {
+              setFileName(name);
+              setCopied(false);
+            }}
+            style={buttonStyle(name === fileName ? '#007bff' : '#495057')}
+          >
+            {name}
+          </button>
+        ))}
+        <span style={{ flex: 1 }} />
+        <button onClick={copy} style={buttonStyle('#6f42c1')}>
+          {copied ? '✓ Copied' : `Copy ${fileName}`}
+        </button>
+        <button onClick={download} style={buttonStyle('#28a745')}>
+          ⬇ Download {sceneId}.zip
+        </button>
+      </div>
+
+      <textarea
+        readOnly
+        value={files[fileName]}
+        onFocus={(event) => event.target.select()}
+        style={{
+          flex: 1,
+          minHeight: '300px',
+          width: '100%',
+          boxSizing: 'border-box',
+          fontFamily: 'monospace',
+          fontSize: '12px',
+          padding: '6px',
+        }}
+      />
+    </div>
+  );
+}
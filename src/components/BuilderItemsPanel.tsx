@@ -0,0 +1,254 @@
+import type { TransformControlsMode } from 'three/addons/controls/TransformControls.js';
+import {
+  BUILDER_SHAPE_LABELS,
+  type BuilderItem,
+  type ColorName,
+} from '../utils/builderDocument';
+import { COLORS } from '../utils/primitives';
+
+interface BuilderItemsPanelProps {
+  items: BuilderItem[];
+  selectedIds: string[];
+  /**
+   * @param additive - Add to (or remove from) the selection instead of
+   * replacing it
+   */
+  onSelect: (id: string, additive: boolean) => void;
+  onUpdate: (id: string, changes: Partial<BuilderItem>) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onDelete: () => void;
+  gizmoMode: TransformControlsMode;
+  onGizmoModeChange: (mode: TransformControlsMode) => void;
+}
+
+const GIZMO_MODES: [TransformControlsMode, string][] = [
+  ['translate', '✥ Move'],
+  ['rotate', '⟳ Rotate'],
+  ['scale', '⤢ Scale'],
+];
+
+const buttonStyle = (backgroundColor: string) => ({
+  padding: '4px 8px',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+});
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  padding: '3px',
+};
+
+const toCss = (color: number): string =>
+  `#${color.toString(16).padStart(6, '0')}`;
+
+/**
+ * Objects placed in the builder, with grouping and the properties of the
+ * selected one
+ */
+export default function BuilderItemsPanel({
+  items,
+  selectedIds,
+  onSelect,
+  onUpdate,
+  onGroup,
+  onUngroup,
+  onDelete,
+  gizmoMode,
+  onGizmoModeChange,
+}: BuilderItemsPanelProps) {
+  const selectedItems = items.filter((item) => selectedIds.includes(item.id));
+  const selected = selectedItems.length === 1 ? selectedItems[0] : null;
+  const canGroup =
+    selectedItems.length > 0 &&
+    selectedItems.every((item) => item.parentId === selectedItems[0].parentId);
+
+  const renderItems = (parentId: string | undefined, depth: number) =>
+    items
+      .filter((item) => item.parentId === parentId)
+      .map((item) => (
+        <div key={item.id}>
+          <div
+            onClick={(event) =>
+              onSelect(item.id, event.shiftKey || event.metaKey)
+            }
+            style={{
+              padding: `2px 4px 2px ${depth * 14 + 4}px`,
+              borderRadius: '3px',
+              cursor: 'pointer',
+              whiteSpace: 'nowrap',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              backgroundColor: selectedIds.includes(item.id)
+                ? '#007bff'
+                : 'transparent',
+            }}
+          >
+            {item.type === 'group'
+              ? '📁'
+              : BUILDER_SHAPE_LABELS[item.type].split(' ')[0]}{' '}
+            {item.name}
+          </div>
+          {item.type === 'group' && renderItems(item.id, depth + 1)}
+        </div>
+      ));
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '20px',
+        right: '20px',
+        bottom: '80px',
+        width: '280px',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        boxSizing: 'border-box',
+      }}
+    >
+      <strong style={{ marginBottom: '6px' }}>Objects</strong>
+      <div style={{ fontSize: '12px', opacity: 0.8, marginBottom: '6px' }}>
+        Shift-click to select several, then group them.
+      </div>
+
+      <div
+        style={{
+          flex: 1,
+          overflowY: 'auto',
+          fontSize: '12px',
+          marginBottom: '10px',
+        }}
+      >
+        {items.length === 0 && (
+          <div style={{ opacity: 0.6 }}>
+            Drag shapes from the left onto the ground.
+          </div>
+        )}
+        {renderItems(undefined, 0)}
+      </div>
+
+      <div style={{ display: 'flex', gap: '4px', marginBottom: '10px' }}>
+        <button
+          onClick={onGroup}
+          disabled={!canGroup}
+          style={buttonStyle('#17a2b8')}
+        >
+          Group
+        </button>
+        <button
+          onClick={onUngroup}
+          disabled={selected?.type !== 'group'}
+          style={buttonStyle('#17a2b8')}
+        >
+          Ungroup
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={selectedItems.length === 0}
+          title="Delete (Del)"
+          style={buttonStyle('#dc3545')}
+        >
+          Delete
+        </button>
+      </div>
+
+      {selected && (
+        <div
+          style={{
+            borderTop: '1px solid rgba(255, 255, 255, 0.2)',
+            paddingTop: '10px',
+            fontSize: '12px',
+          }}
+        >
+          <label style={{ display: 'block', marginBottom: '6px' }}>
+            Name
+            <input
+              value={selected.name}
+              onChange={(event) =>
+                onUpdate(selected.id, { name: event.target.value })
+              }
+              style={inputStyle}
+            />
+          </label>
+
+          {selected.type !== 'group' && selected.type !== 'tree' && (
+            <label style={{ display: 'block', marginBottom: '6px' }}>
+              {selected.type === 'house' ? 'Roof colour' : 'Colour'}
+              <div style={{ display: 'flex', gap: '4px' }}>
+                <span
+                  style={{
+                    width: '22px',
+                    flexShrink: 0,
+                    borderRadius: '3px',
+                    backgroundColor: toCss(COLORS[selected.color]),
+                  }}
+                />
+                <select
+                  value={selected.color}
+                  onChange={(event) =>
+                    onUpdate(selected.id, {
+                      color: event.target.value as ColorName,
+                    })
+                  }
+                  style={inputStyle}
+                >
+                  {(Object.keys(COLORS) as ColorName[]).map((name) => (
+                    <option key={name} value={name}>
+                      COLORS.{name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </label>
+          )}
+
+          <div style={{ marginBottom: '6px' }}>
+            Position
+            <div style={{ display: 'flex', gap: '4px' }}>
+              {(['x', 'y', 'z'] as const).map((axis) => (
+                <input
+                  key={axis}
+                  type="number"
+                  step={0.5}
+                  value={Math.round(selected.position[axis] * 1000) / 1000}
+                  onChange={(event) =>
+                    onUpdate(selected.id, {
+                      position: {
+                        ...selected.position,
+                        [axis]: Number(event.target.value),
+                      },
+                    })
+                  }
+                  style={inputStyle}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', gap: '4px' }}>
+            {GIZMO_MODES.map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => onGizmoModeChange(mode)}
+                style={buttonStyle(gizmoMode === mode ? '#007bff' : '#495057')}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
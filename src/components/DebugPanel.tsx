@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { DEBUG_VIEW_LABELS, type DebugViewOptions } from '../utils/debugView';
+
+interface DebugPanelProps {
+  options: DebugViewOptions;
+  onChange: (options: DebugViewOptions) => void;
+}
+
+/**
+ * Collapsible list of debug visualisation toggles
+ */
+export default function DebugPanel({ options, onChange }: DebugPanelProps) {
+  const activeCount = Object.values(options).filter(Boolean).length;
+  const [expanded, setExpanded] = useState(activeCount > 0);
+
+  return (
+    <div
+      style={{
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        width: '240px',
+        boxSizing: 'border-box',
+      }}
+    >
+      <div
+        onClick={() => setExpanded((prev) => !prev)}
+        style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }}
+      >
+        {expanded ? '▾' : '▸'} Debug view
+        {activeCount > 0 && ` (${activeCount})`}
+      </div>
+
+      {expanded &&
+        (Object.keys(DEBUG_VIEW_LABELS) as (keyof DebugViewOptions)[]).map(
+          (key) => (
+            <label
+              key={key}
+              style={{ display: 'block', marginTop: '8px', fontSize: '12px' }}
+            >
+              <input
+                type="checkbox"
+                checked={options[key]}
+                onChange={(event) =>
+                  onChange({ ...options, [key]: event.target.checked })
+                }
+              />{' '}
+              {DEBUG_VIEW_LABELS[key]}
+            </label>
+          )
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import type { GltfExportOptions } from '../utils/gltfExport';
+
+interface GltfExportPanelProps {
+  /** Whether the scene has an animate() to bake */
+  animated: boolean;
+  onExport: (options: GltfExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputStyle = {
+  width: '60px',
+  fontSize: '12px',
+  padding: '3px',
+};
+
+/**
+ * Small panel to export the scene as a glTF model, for Blender or other
+ * sites
+ */
+export default function GltfExportPanel({
+  animated,
+  onExport,
+  onClose,
+}: GltfExportPanelProps) {
+  const [binary, setBinary] = useState(true);
+  const [bake, setBake] = useState(animated);
+  const [duration, setDuration] = useState(5);
+  const [fps, setFps] = useState(30);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportModel = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport({
+        binary,
+        animation: animated && bake ? { duration, fps } : undefined,
+      });
+    } catch (error) {
+      console.error('Error exporting glTF:', error);
+      setError(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '110px',
+        left: '20px',
+        width: '260px',
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '10px',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+        <strong>Export 3D model</strong>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: 'white',
+            cursor: 'pointer',
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <select
+        value={binary ? 'glb' : 'gltf'}
+        onChange={(event) => setBinary(event.target.value === 'glb')}
+      >
+        <option value="glb">GLB (single binary file)</option>
+        <option value="gltf">glTF (JSON)</option>
+      </select>
+
+      {animated && (
+        <>
+          <label style={{ fontSize: '12px' }}>
+            <input
+              type="checkbox"
+              checked={bake}
+              onChange={(event) => setBake(event.target.checked)}
+            />{' '}
+            Bake animation into keyframes
+          </label>
+          {bake && (
+            <div style={{ fontSize: '12px', opacity: 0.8 }}>
+              Only movement, rotation and scale are baked, not changes of
+              colour, opacity, visibility or lights.
+            </div>
+          )}
+          {bake && (
+            <div
+              style={{
+                display: 'flex',
+                gap: '6px',
+                alignItems: 'center',
+                fontSize: '12px',
+              }}
+            >
+              <input
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={duration}
+                onChange={(event) =>
+                  setDuration(Math.max(0.1, Number(event.target.value)))
+                }
+                style={inputStyle}
+              />
+              s at
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={fps}
+                onChange={(event) =>
+                  setFps(
+                    Math.min(
+                      60,
+                      Math.max(1, Math.round(Number(event.target.value)))
+                    )
+                  )
+                }
+                style={inputStyle}
+              />
+              fps
+            </div>
+          )}
+        </>
+      )}
+
+      <div style={{ fontSize: '12px', opacity: 0.8 }}>
+        The grid, gizmo and other preview helpers are left out, as are hidden
+        objects.
+      </div>
+
+      <button
+        onClick={exportModel}
+        disabled={exporting}
+        style={{
+          padding: '8px',
+          backgroundColor: '#17a2b8',
+          color: 'white',
+          border: 'none',
+          borderRadius: '5px',
+          cursor: exporting ? 'wait' : 'pointer',
+          fontSize: '14px',
+        }}
+      >
+        {exporting ? 'Exporting...' : `🧊 Download ${binary ? 'GLB' : 'glTF'}`}
+      </button>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '12px' }}>{error}</div>
+      )}
+    </div>
+  );
+}
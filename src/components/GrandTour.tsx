@@ -0,0 +1,240 @@
+import { useEffect, useState, type TransitionEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getSceneMetadata } from '../scenes/registry';
+import ScenePreview from './ScenePreview';
+
+// Length of the crossfade between two scenes, in seconds
+const CROSSFADE_DURATION = 1.5;
+
+// How long a scene without tour points stays on screen, in seconds
+const STILL_SCENE_DURATION = 10;
+
+const buttonStyle = {
+  padding: '8px 16px',
+  backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  color: 'white',
+  border: 'none',
+  borderRadius: '5px',
+  cursor: 'pointer',
+  fontSize: '14px',
+};
+
+/**
+ * Showcase of the whole workshop: plays every enabled scene's tour once,
+ * crossfading from one scene to the next, with credits for each team and
+ * a closing credits screen.
+ */
+export default function GrandTour() {
+  const navigate = useNavigate();
+  const [playlist] = useState(getSceneMetadata);
+
+  // Playlist positions of the scene on screen and of the scene fading in.
+  // Position playlist.length is the closing credits.
+  const [current, setCurrent] = useState(0);
+  const [next, setNext] = useState<number | null>(null);
+  const [readyIndex, setReadyIndex] = useState<number | null>(null);
+  const [fading, setFading] = useState(false);
+  const [failedIds, setFailedIds] = useState<string[]>([]);
+  // Playlist positions whose tour actually started
+  const [touring, setTouring] = useState<number[]>([]);
+  const [round, setRound] = useState(0);
+
+  const finished = current >= playlist.length;
+  const currentScene = playlist[current];
+
+  const advance = () => {
+    if (next === null) {
+      setNext(current + 1);
+    }
+  };
+
+  // Crossfade once the incoming scene is rendering, or straight away when
+  // moving on to the closing credits
+  useEffect(() => {
+    if (next === null) return;
+    if (next >= playlist.length || readyIndex === next) {
+      setFading(true);
+    }
+  }, [next, readyIndex, playlist.length]);
+
+  // Scenes whose tour did not start (none declared, or no points after
+  // all) are shown for a fixed time
+  useEffect(() => {
+    if (finished || readyIndex !== current || touring.includes(current)) {
+      return;
+    }
+    const timeoutId = setTimeout(advance, STILL_SCENE_DURATION * 1000);
+    return () => clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [current, readyIndex, finished, touring]);
+
+  const onFadeEnd = (event: TransitionEvent<HTMLDivElement>) => {
+    // Ignore transitions bubbling up from inside the scene
+    if (event.target !== event.currentTarget) return;
+    if (!fading || next === null) return;
+    setCurrent(next);
+    setNext(null);
+    setFading(false);
+  };
+
+  const onSceneError = (index: number) => {
+    setFailedIds((prev) => [...prev, playlist[index].sceneId]);
+    // Skip the broken scene without showing it
+    if (index === next) {
+      setNext(index + 1);
+    } else if (index === current) {
+      setCurrent(index + 1);
+    }
+  };
+
+  const restart = () => {
+    setRound((prev) => prev + 1);
+    setCurrent(0);
+    setNext(null);
+    setReadyIndex(null);
+    setFading(false);
+    setFailedIds([]);
+    setTouring([]);
+  };
+
+  const renderScene = (index: number, onTop: boolean) => (
+    <div
+      key={`${round}-${index}`}
+      onTransitionEnd={onTop ? onFadeEnd : undefined}
+      style={{
+        position: 'absolute',
+        inset: 0,
+        zIndex: onTop ? 1 : 0,
+        opacity: onTop && fading ? 0 : 1,
+        transition: `opacity ${CROSSFADE_DURATION}s ease-in-out`,
+      }}
+    >
+      <ScenePreview
+        sceneId={playlist[index].sceneId}
+        autoStartTour
+        loopTour={false}
+        hideOverlays
+        onTourStart={() => setTouring((prev) => [...prev, index])}
+        onTourComplete={advance}
+        onReady={() => setReadyIndex(index)}
+        onError={() => onSceneError(index)}
+      />
+    </div>
+  );
+
+  if (playlist.length === 0) {
+    return (
+      <div style={{ padding: '20px', textAlign: 'center' }}>
+        <h2>No scenes to show yet</h2>
+        <button onClick={() => navigate('/')} style={buttonStyle}>
+          ← Back to Gallery
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        position: 'relative',
+        width: '100%',
+        height: '100vh',
+        overflow: 'hidden',
+        backgroundColor: 'black',
+      }}
+    >
+      {/* Closing credits sit under the last scene and show as it fades */}
+      {(finished || next === playlist.length) && (
+        <div
+          style={{
+            position: 'absolute',
+            inset: 0,
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'center',
+            alignItems: 'center',
+            gap: '12px',
+            color: 'white',
+            textAlign: 'center',
+          }}
+        >
+          <h1 style={{ margin: '0 0 20px 0' }}>Thanks for watching!</h1>
+          {playlist
+            .filter((scene) => !failedIds.includes(scene.sceneId))
+            .map((scene) => (
+              <div key={scene.sceneId}>
+                <strong>{scene.sceneName}</strong>
+                {scene.authors.length > 0 && (
+                  <span style={{ opacity: 0.7 }}>
+                    {' '}
+                    by {scene.authors.join(', ')}
+                  </span>
+                )}
+              </div>
+            ))}
+          <div style={{ display: 'flex', gap: '10px', marginTop: '30px' }}>
+            <button onClick={restart} style={buttonStyle}>
+              ↻ Play Again
+            </button>
+            <button onClick={() => navigate('/')} style={buttonStyle}>
+              ← Back to Gallery
+            </button>
+          </div>
+        </div>
+      )}
+
+      {next !== null && next < playlist.length && renderScene(next, false)}
+      {!finished && renderScene(current, true)}
+
+      {/* Credits for the scene on screen */}
+      {!finished && (
+        <div
+          key={`credits-${round}-${current}`}
+          style={{
+            position: 'absolute',
+            bottom: '40px',
+            left: '40px',
+            zIndex: 2,
+            color: 'white',
+            textShadow: '0 2px 6px rgba(0, 0, 0, 0.8)',
+            opacity: fading ? 0 : 1,
+            transition: `opacity ${CROSSFADE_DURATION / 2}s ease-in-out`,
+            pointerEvents: 'none',
+          }}
+        >
+          <div style={{ fontSize: '12px', opacity: 0.8 }}>
+            {current + 1} / {playlist.length}
+          </div>
+          <div style={{ fontSize: '28px', fontWeight: 'bold' }}>
+            {currentScene.sceneName}
+          </div>
+          {currentScene.authors.length > 0 && (
+            <div style={{ fontSize: '16px' }}>
+              By {currentScene.authors.join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+
+      {!finished && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '20px',
+            right: '20px',
+            zIndex: 2,
+            display: 'flex',
+            gap: '10px',
+          }}
+        >
+          <button onClick={advance} style={buttonStyle}>
+            Skip →
+          </button>
+          <button onClick={() => navigate('/')} style={buttonStyle}>
+            ✕ Exit
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import type * as THREE from 'three';
+import {
+  describeCommand,
+  getAppliedTransformChanges,
+  type EditHistory,
+} from '../utils/editHistory';
+import {
+  changesToJson,
+  changesToTypeScript,
+  netChanges,
+} from '../utils/transformChanges';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  root: THREE.Object3D;
+  onUndo: () => void;
+  onRedo: () => void;
+  /**
+   * Undoes or redoes commands until the first `cursor` ones are applied
+   */
+  onJump: (cursor: number) => void;
+  onClear: () => void;
+}
+
+const buttonStyle = (backgroundColor: string) => ({
+  padding: '4px 8px',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+});
+
+/**
+ * Collapsible list of the edits made in the preview, with undo/redo and an
+ * export of the resulting transforms to copy back into the scene's code
+ */
+export default function HistoryPanel({
+  history,
+  root,
+  onUndo,
+  onRedo,
+  onJump,
+  onClear,
+}: HistoryPanelProps) {
+  const { entries, cursor } = history;
+  const [expanded, setExpanded] = useState(entries.length > 0);
+  const [exportFormat, setExportFormat] = useState<'ts' | 'json' | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const changes = getAppliedTransformChanges(history, root);
+
+  const exportText = (format: 'ts' | 'json') =>
+    format === 'ts'
+      ? changesToTypeScript(changes, root)
+      : changesToJson(changes, root);
+
+  const showExport = async (format: 'ts' | 'json') => {
+    setExportFormat(format);
+    setCopied(false);
+    try {
+      await navigator.clipboard.writeText(exportText(format));
+      setCopied(true);
+    } catch (error) {
+      // Clipboard access can be denied, the text area is still there
+      console.warn('Could not copy changes to clipboard:', error);
+    }
+  };
+
+  const changedObjectCount = netChanges(changes).length;
+
+  return (
+    <div
+      style={{
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        width: '240px',
+        boxSizing: 'border-box',
+      }}
+    >
+      <div
+        onClick={() => setExpanded((prev) => !prev)}
+        style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }}
+      >
+        {expanded ? '▾' : '▸'} History
+        {entries.length > 0 && ` (${cursor}/${entries.length})`}
+      </div>
+
+      {expanded && (
+        <div style={{ fontSize: '12px' }}>
+          <div
+            style={{ maxHeight: '160px', overflowY: 'auto', margin: '8px 0' }}
+          >
+            {entries.length === 0 && (
+              <div style={{ opacity: 0.6 }}>
+                Edits made with the outliner, the gizmo or the parameters show
+                up here.
+              </div>
+            )}
+            {entries.length > 0 && (
+              <div
+                onClick={() => onJump(0)}
+                title="Undo everything"
+                style={{
+                  cursor: 'pointer',
+                  padding: '1px 0',
+                  opacity: 0.6,
+                  fontWeight: cursor === 0 ? 'bold' : 'normal',
+                }}
+              >
+                ⟲ Start
+              </div>
+            )}
+            {entries.map((command, index) => (
+              <div
+                key={index}
+                onClick={() => onJump(index + 1)}
+                title={new Date(command.time).toLocaleTimeString()}
+                style={{
+                  cursor: 'pointer',
+                  padding: '1px 0',
+                  whiteSpace: 'nowrap',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  opacity: index < cursor ? 1 : 0.4,
+                  fontWeight: index + 1 === cursor ? 'bold' : 'normal',
+                }}
+              >
+                {describeCommand(command)}
+              </div>
+            ))}
+          </div>
+
+          <div
+            style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              gap: '6px',
+              marginBottom: '6px',
+            }}
+          >
+            <button
+              onClick={onUndo}
+              disabled={cursor === 0}
+              title="Undo (Ctrl+Z)"
+              style={buttonStyle('#495057')}
+            >
+              ↶ Undo
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={cursor === entries.length}
+              title="Redo (Ctrl+Shift+Z)"
+              style={buttonStyle('#495057')}
+            >
+              ↷ Redo
+            </button>
+            <button
+              onClick={() => {
+                setExportFormat(null);
+                onClear();
+              }}
+              disabled={entries.length === 0}
+              title="Forget the history (the scene stays as it is)"
+              style={buttonStyle('#6c757d')}
+            >
+              Clear
+            </button>
+            <button
+              onClick={() => showExport('ts')}
+              disabled={changedObjectCount === 0}
+              title="Copy the new transforms, as options for the create*() calls"
+              style={buttonStyle('#6f42c1')}
+            >
+              Export changes
+            </button>
+            <button
+              onClick={() => showExport('json')}
+              disabled={changedObjectCount === 0}
+              style={buttonStyle('#6f42c1')}
+            >
+              JSON
+            </button>
+            {copied && <span style={{ alignSelf: 'center' }}>Copied!</span>}
+          </div>
+
+          {exportFormat && (
+            <textarea
+              readOnly
+              value={exportText(exportFormat)}
+              rows={6}
+              onFocus={(event) => event.target.select()}
+              style={{
+                width: '100%',
+                boxSizing: 'border-box',
+                fontSize: '12px',
+                padding: '3px',
+                fontFamily: 'monospace',
+              }}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import * as THREE from 'three';
+import type { Hotspot } from '../types/scene';
+
+interface HotspotLayerProps {
+  hotspots: Hotspot[];
+  camera: RefObject<THREE.PerspectiveCamera | undefined>;
+  selectedId: string | null;
+  onSelect: (hotspot: Hotspot) => void;
+  onClose: () => void;
+}
+
+/**
+ * Screen-space markers that follow the 3D position of each hotspot, plus
+ * the popup of the selected one
+ */
+export default function HotspotLayer({
+  hotspots,
+  camera,
+  selectedId,
+  onSelect,
+  onClose,
+}: HotspotLayerProps) {
+  const markerRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // Reposition markers every frame without re-rendering React
+  useEffect(() => {
+    let frameId: number;
+    const projected = new THREE.Vector3();
+
+    const updateMarkers = () => {
+      const currentCamera = camera.current;
+      if (currentCamera) {
+        for (const hotspot of hotspots) {
+          const marker = markerRefs.current.get(hotspot.id);
+          if (!marker) continue;
+
+          projected.copy(hotspot.position).project(currentCamera);
+          // Behind the camera or outside the view frustum depth
+          const visible = projected.z > -1 && projected.z < 1;
+
+          marker.style.display = visible ? 'block' : 'none';
+          marker.style.left = `${((projected.x + 1) / 2) * window.innerWidth}px`;
+          marker.style.top = `${((1 - projected.y) / 2) * window.innerHeight}px`;
+        }
+      }
+      frameId = requestAnimationFrame(updateMarkers);
+    };
+
+    updateMarkers();
+    return () => cancelAnimationFrame(frameId);
+  }, [hotspots, camera]);
+
+  return (
+    <>
+      {hotspots.map((hotspot) => {
+        const selected = hotspot.id === selectedId;
+
+        return (
+          <div
+            key={hotspot.id}
+            ref={(element) => {
+              if (element) {
+                markerRefs.current.set(hotspot.id, element);
+              } else {
+                markerRefs.current.delete(hotspot.id);
+              }
+            }}
+            style={{
+              position: 'absolute',
+              display: 'none',
+              transform: 'translate(-50%, -50%)',
+              zIndex: selected ? 20 : 10,
+            }}
+          >
+            <button
+              onClick={() => (selected ? onClose() : onSelect(hotspot))}
+              title={hotspot.title}
+              style={{
+                width: '24px',
+                height: '24px',
+                borderRadius: '50%',
+                border: '2px solid white',
+                backgroundColor: selected ? '#007bff' : 'rgba(0, 0, 0, 0.6)',
+                color: 'white',
+                fontSize: '12px',
+                fontWeight: 'bold',
+                cursor: 'pointer',
+                padding: 0,
+              }}
+            >
+              i
+            </button>
+
+            {selected && (
+              <div
+                style={{
+                  position: 'absolute',
+                  left: '32px',
+                  top: '-8px',
+                  width: '240px',
+                  backgroundColor: 'rgba(0, 0, 0, 0.85)',
+                  color: 'white',
+                  padding: '12px 15px',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                }}
+              >
+                <div
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    fontWeight: 'bold',
+                    marginBottom: '5px',
+                  }}
+                >
+                  {hotspot.title}
+                  <span
+                    onClick={onClose}
+                    style={{ cursor: 'pointer', marginLeft: '10px' }}
+                  >
+                    ✕
+                  </span>
+                </div>
+                <div style={{ fontSize: '12px', opacity: 0.8 }}>
+                  {hotspot.body}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
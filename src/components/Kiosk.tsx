@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { getEnabledSceneIds } from '../scenes/registry';
+import { readKioskOptions } from '../utils/kioskOptions';
+import ScenePreview from './ScenePreview';
+
+// Seconds before moving on from a scene that failed to load or build
+const ERROR_SKIP_DELAY = 3;
+
+/**
+ * Chromeless slideshow for office screens: cycles through scenes on a
+ * timer, playing their tours, and skips scenes that fail. Press Escape to
+ * leave. Configured through the URL, see readKioskOptions().
+ */
+export default function Kiosk() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [options] = useState(() =>
+    readKioskOptions(searchParams, getEnabledSceneIds())
+  );
+
+  // Number of scenes shown so far, keeps increasing as the kiosk loops
+  const [position, setPosition] = useState(0);
+  const [failed, setFailed] = useState(false);
+
+  const { interval, sceneIds } = options;
+  const sceneId = sceneIds[position % sceneIds.length];
+
+  useEffect(() => {
+    if (sceneIds.length === 0) return;
+    const delay = failed ? ERROR_SKIP_DELAY : interval;
+    const timeoutId = setTimeout(() => {
+      setFailed(false);
+      setPosition((prev) => prev + 1);
+    }, delay * 1000);
+    return () => clearTimeout(timeoutId);
+  }, [position, failed, interval, sceneIds.length]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.code === 'Escape') {
+        navigate('/');
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [navigate]);
+
+  if (sceneIds.length === 0) {
+    return (
+      <div style={{ padding: '20px', textAlign: 'center' }}>
+        <h2>No scenes to show yet</h2>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100vh',
+        overflow: 'hidden',
+        backgroundColor: 'black',
+        cursor: 'none',
+      }}
+    >
+      <ScenePreview
+        key={position}
+        sceneId={sceneId}
+        autoStartTour
+        hideOverlays
+        onError={(message) => {
+          console.error(`Kiosk: skipping scene ${sceneId}:`, message);
+          setFailed(true);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import {
+  describeType,
+  getObjectColor,
+  setObjectColor,
+} from '../utils/sceneGraph';
+import type { ObjectEdit } from '../utils/editHistory';
+import { readTransform } from '../utils/transformChanges';
+
+interface ObjectInspectorProps {
+  object: THREE.Object3D;
+
+  /**
+   * Called after each edit, with the values from before and after it
+   */
+  onEdit?: (edit: ObjectEdit) => void;
+}
+
+// How often the fields pick up changes made by the scene's animation
+const REFRESH_INTERVAL_MS = 250;
+
+const AXES = ['x', 'y', 'z'] as const;
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  padding: '3px',
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+interface NumberFieldProps {
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+/**
+ * Number input showing the live value, except while it is being edited
+ */
+function NumberField({ value, step, onChange }: NumberFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="number"
+      step={step}
+      value={draft ?? round(value)}
+      onFocus={() => setDraft(String(round(value)))}
+      onBlur={() => setDraft(null)}
+      onChange={(event) => {
+        setDraft(event.target.value);
+        const next = Number(event.target.value);
+        if (event.target.value !== '' && Number.isFinite(next)) {
+          onChange(next);
+        }
+      }}
+      style={inputStyle}
+    />
+  );
+}
+
+/**
+ * Live editor for the transform, colour and visibility of an object.
+ * Edits apply to the object directly, the scene keeps running.
+ */
+export default function ObjectInspector({
+  object,
+  onEdit,
+}: ObjectInspectorProps) {
+  const [, setRevision] = useState(0);
+
+  // Objects change under us (animation, tours), so re-read them regularly
+  useEffect(() => {
+    const intervalId = setInterval(
+      () => setRevision((revision) => revision + 1),
+      REFRESH_INTERVAL_MS
+    );
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const updateTransform = (apply: () => void) => {
+    const before = readTransform(object);
+    apply();
+    onEdit?.({ type: 'transform', before, after: readTransform(object) });
+    setRevision((revision) => revision + 1);
+  };
+
+  const updateColor = (value: string) => {
+    const before = getObjectColor(object);
+    setObjectColor(object, value);
+    const after = getObjectColor(object);
+    if (before && after) onEdit?.({ type: 'color', before, after });
+    setRevision((revision) => revision + 1);
+  };
+
+  const updateVisibility = (visible: boolean) => {
+    const before = object.visible;
+    object.visible = visible;
+    onEdit?.({ type: 'visibility', before, after: visible });
+    setRevision((revision) => revision + 1);
+  };
+
+  const color = getObjectColor(object);
+
+  const vectorRow = (
+    label: string,
+    vector: THREE.Vector3 | THREE.Euler,
+    step: number,
+    toDisplay: (value: number) => number = (value) => value,
+    fromDisplay: (value: number) => number = (value) => value
+  ) => (
+    <div style={{ marginBottom: '6px' }}>
+      <div style={{ opacity: 0.7, marginBottom: '2px' }}>{label}</div>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        {AXES.map((axis) => (
+          <NumberField
+            key={axis}
+            value={toDisplay(vector[axis])}
+            step={step}
+            onChange={(value) =>
+              updateTransform(() => {
+                vector[axis] = fromDisplay(value);
+              })
+            }
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      <div style={{ marginBottom: '8px' }}>
+        <strong>{object.name || '(unnamed)'}</strong>{' '}
+        <span style={{ opacity: 0.6 }}>{describeType(object)}</span>
+      </div>
+
+      {vectorRow('Position', object.position, 0.1)}
+      {vectorRow(
+        'Rotation (°)',
+        object.rotation,
+        5,
+        THREE.MathUtils.radToDeg,
+        THREE.MathUtils.degToRad
+      )}
+      {vectorRow('Scale', object.scale, 0.1)}
+
+      <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+        {color && (
+          <label>
+            Colour{' '}
+            <input
+              type="color"
+              value={color}
+              onChange={(event) => updateColor(event.target.value)}
+              style={{ verticalAlign: 'middle' }}
+            />
+          </label>
+        )}
+        <label>
+          <input
+            type="checkbox"
+            checked={object.visible}
+            onChange={(event) => updateVisibility(event.target.checked)}
+          />{' '}
+          Visible
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import type { TransformControlsMode } from 'three/addons/controls/TransformControls.js';
+import ObjectInspector from './ObjectInspector';
+import type { ObjectEdit } from '../utils/editHistory';
+import {
+  describeObject,
+  getAncestors,
+  listChildren,
+} from '../utils/sceneGraph';
+
+export interface GizmoOptions {
+  mode: TransformControlsMode;
+  /** Snap moves, rotations and scaling to round steps */
+  snap: boolean;
+}
+
+interface OutlinerPanelProps {
+  scene: THREE.Scene;
+  selected: THREE.Object3D | null;
+  onSelect: (object: THREE.Object3D | null) => void;
+
+  gizmo: GizmoOptions;
+  onGizmoChange: (gizmo: GizmoOptions) => void;
+
+  /**
+   * Called after the inspector edits an object
+   */
+  onObjectEdit: (object: THREE.Object3D, edit: ObjectEdit) => void;
+
+  onClose: () => void;
+}
+
+const GIZMO_MODES: [TransformControlsMode, string][] = [
+  ['translate', '✥ Move'],
+  ['rotate', '⟳ Rotate'],
+  ['scale', '⤢ Scale'],
+];
+
+// How often the tree picks up objects added or removed by the scene
+const REFRESH_INTERVAL_MS = 1000;
+
+const buttonStyle = (backgroundColor: string) => ({
+  padding: '4px 8px',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+});
+
+const typeIcon = (object: THREE.Object3D): string => {
+  if (object instanceof THREE.Light) return '💡';
+  if (object instanceof THREE.Mesh) return '◆';
+  if (object instanceof THREE.Points || object instanceof THREE.Line) {
+    return '⁘';
+  }
+  return '▣';
+};
+
+/**
+ * Side panel listing the scene's objects as a collapsible tree, with an
+ * inspector for the selected one
+ */
+export default function OutlinerPanel({
+  scene,
+  selected,
+  onSelect,
+  gizmo,
+  onGizmoChange,
+  onObjectEdit,
+  onClose,
+}: OutlinerPanelProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  const [, setRevision] = useState(0);
+  const scrollToSelectedRef = useRef(false);
+
+  useEffect(() => {
+    const intervalId = setInterval(
+      () => setRevision((revision) => revision + 1),
+      REFRESH_INTERVAL_MS
+    );
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Reveal objects selected in the viewport
+  useEffect(() => {
+    if (!selected) return;
+    scrollToSelectedRef.current = true;
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      getAncestors(selected, scene).forEach((ancestor) =>
+        next.add(ancestor.uuid)
+      );
+      return next;
+    });
+  }, [selected, scene]);
+
+  const toggle = (object: THREE.Object3D) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(object.uuid)) next.add(object.uuid);
+      return next;
+    });
+  };
+
+  const renderNode = (object: THREE.Object3D, depth: number) => {
+    const children = listChildren(object);
+    const isExpanded = expanded.has(object.uuid);
+    const isSelected = object === selected;
+
+    return (
+      <div key={object.uuid}>
+        <div
+          ref={(element) => {
+            if (element && isSelected && scrollToSelectedRef.current) {
+              scrollToSelectedRef.current = false;
+              element.scrollIntoView({ block: 'nearest' });
+            }
+          }}
+          onClick={() => onSelect(isSelected ? null : object)}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            padding: `2px 4px 2px ${depth * 14 + 4}px`,
+            borderRadius: '3px',
+            cursor: 'pointer',
+            whiteSpace: 'nowrap',
+            backgroundColor: isSelected ? '#007bff' : 'transparent',
+            opacity: object.visible ? 1 : 0.5,
+          }}
+        >
+          <span
+            onClick={(event) => {
+              event.stopPropagation();
+              toggle(object);
+            }}
+            style={{
+              width: '12px',
+              visibility: children.length > 0 ? 'visible' : 'hidden',
+            }}
+          >
+            {isExpanded ? '▾' : '▸'}
+          </span>
+          <span>{typeIcon(object)}</span>
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>
+            {describeObject(object)}
+          </span>
+          {children.length > 0 && (
+            <span style={{ opacity: 0.5 }}>({children.length})</span>
+          )}
+        </div>
+        {isExpanded && children.map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '20px',
+        left: '20px',
+        bottom: '110px',
+        width: '320px',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        boxSizing: 'border-box',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          marginBottom: '10px',
+        }}
+      >
+        <strong>Outliner</strong>
+        <button onClick={onClose} style={buttonStyle('#666')}>
+          Close
+        </button>
+      </div>
+
+      <div style={{ fontSize: '12px', opacity: 0.8, marginBottom: '10px' }}>
+        Click an object here or in the viewport to select it, then drag the
+        gizmo to move it. Give objects a <code>name</code> in your scene to find
+        them easily.
+      </div>
+
+      <div
+        style={{
+          flex: 1,
+          overflowY: 'auto',
+          fontSize: '12px',
+          marginBottom: '10px',
+        }}
+      >
+        {listChildren(scene).map((child) => renderNode(child, 0))}
+      </div>
+
+      {selected && (
+        <div
+          style={{
+            borderTop: '1px solid rgba(255, 255, 255, 0.2)',
+            paddingTop: '10px',
+          }}
+        >
+          <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+            {GIZMO_MODES.map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => onGizmoChange({ ...gizmo, mode })}
+                style={buttonStyle(gizmo.mode === mode ? '#007bff' : '#495057')}
+              >
+                {label}
+              </button>
+            ))}
+            <label
+              style={{ fontSize: '12px', alignSelf: 'center' }}
+              title="Snap to 0.5 units, 15° and 0.1× steps"
+            >
+              <input
+                type="checkbox"
+                checked={gizmo.snap}
+                onChange={(event) =>
+                  onGizmoChange({ ...gizmo, snap: event.target.checked })
+                }
+              />{' '}
+              Snap
+            </label>
+          </div>
+          <ObjectInspector
+            key={selected.uuid}
+            object={selected}
+            onEdit={(edit) => onObjectEdit(selected, edit)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
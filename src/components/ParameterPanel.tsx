@@ -0,0 +1,137 @@
+import type {
+  SceneParameter,
+  SceneParameterValue,
+  SceneParameterValues,
+} from '../types/scene';
+import { formatColor } from '../utils/sceneParameters';
+
+interface ParameterPanelProps {
+  parameters: Record<string, SceneParameter>;
+  values: SceneParameterValues;
+  onChange: (name: string, value: SceneParameterValue) => void;
+  onReset: () => void;
+}
+
+export default function ParameterPanel({
+  parameters,
+  values,
+  onChange,
+  onReset,
+}: ParameterPanelProps) {
+  return (
+    <div
+      style={{
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        width: '240px',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '10px',
+        }}
+      >
+        <span style={{ fontWeight: 'bold' }}>Parameters:</span>
+        <button
+          onClick={onReset}
+          style={{
+            padding: '2px 8px',
+            backgroundColor: '#666',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '12px',
+          }}
+        >
+          Reset
+        </button>
+      </div>
+
+      {Object.entries(parameters).map(([name, parameter]) => (
+        <label
+          key={name}
+          style={{
+            display: 'flex',
+            flexDirection: parameter.type === 'number' ? 'column' : 'row',
+            justifyContent: 'space-between',
+            gap: '4px',
+            marginBottom: '8px',
+            fontSize: '12px',
+          }}
+        >
+          <span>
+            {parameter.label ?? name}
+            {parameter.type === 'number' && `: ${values[name]}`}
+          </span>
+          <ParameterInput
+            parameter={parameter}
+            value={values[name] ?? parameter.default}
+            onChange={(value) => onChange(name, value)}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function ParameterInput({
+  parameter,
+  value,
+  onChange,
+}: {
+  parameter: SceneParameter;
+  value: SceneParameterValue;
+  onChange: (value: SceneParameterValue) => void;
+}) {
+  switch (parameter.type) {
+    case 'number':
+      return (
+        <input
+          type="range"
+          min={parameter.min}
+          max={parameter.max}
+          step={parameter.step ?? (parameter.max - parameter.min) / 100}
+          value={value as number}
+          onChange={(event) => onChange(Number(event.target.value))}
+        />
+      );
+    case 'color':
+      return (
+        <input
+          type="color"
+          value={formatColor(value as number)}
+          onChange={(event) =>
+            onChange(parseInt(event.target.value.slice(1), 16))
+          }
+        />
+      );
+    case 'boolean':
+      return (
+        <input
+          type="checkbox"
+          checked={value as boolean}
+          onChange={(event) => onChange(event.target.checked)}
+        />
+      );
+    case 'enum':
+      return (
+        <select
+          value={value as string}
+          onChange={(event) => onChange(event.target.value)}
+        >
+          {parameter.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+  }
+}
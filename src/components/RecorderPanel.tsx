@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { canRecordVideo, type RecordingOptions } from '../utils/frameRecorder';
+
+export interface RecordingProgress {
+  frames: number;
+  fps: number;
+}
+
+interface RecorderPanelProps {
+  /**
+   * Whether the scene has tour points to record
+   */
+  hasTour: boolean;
+
+  /**
+   * Progress of the running recording, null when idle
+   */
+  recording: RecordingProgress | null;
+  error: string | null;
+  onStart: (options: RecordingOptions) => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const FRAME_RATES = [24, 30, 60];
+
+const buttonStyle = (backgroundColor: string) => ({
+  padding: '8px',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '5px',
+  cursor: 'pointer',
+  fontSize: '14px',
+});
+
+/**
+ * Options and progress for recording a tour or the scene's animation
+ */
+export default function RecorderPanel({
+  hasTour,
+  recording,
+  error,
+  onStart,
+  onStop,
+  onClose,
+}: RecorderPanelProps) {
+  const [source, setSource] = useState<RecordingOptions['source']>(
+    hasTour ? 'tour' : 'animation'
+  );
+  const [fps, setFps] = useState(30);
+  const [duration, setDuration] = useState(10);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '110px',
+        left: '20px',
+        width: '260px',
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '10px',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+        <strong>Record Video</strong>
+        {!recording && (
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              color: 'white',
+              cursor: 'pointer',
+            }}
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {recording ? (
+        <>
+          <div style={{ fontSize: '12px' }}>
+            🔴 Recording frame {recording.frames} (
+            {(recording.frames / recording.fps).toFixed(1)}s)
+          </div>
+          <button onClick={onStop} style={buttonStyle('#dc3545')}>
+            ■ Stop &amp; Save
+          </button>
+        </>
+      ) : (
+        <>
+          <select
+            value={source}
+            onChange={(event) =>
+              setSource(event.target.value as RecordingOptions['source'])
+            }
+          >
+            {hasTour && <option value="tour">Whole tour</option>}
+            <option value="animation">Animation (fixed length)</option>
+          </select>
+
+          <div style={{ display: 'flex', gap: '10px', fontSize: '12px' }}>
+            <label>
+              FPS{' '}
+              <select
+                value={fps}
+                onChange={(event) => setFps(Number(event.target.value))}
+              >
+                {FRAME_RATES.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {source === 'animation' && (
+              <label>
+                Seconds{' '}
+                <input
+                  type="number"
+                  min={1}
+                  max={300}
+                  value={duration}
+                  onChange={(event) =>
+                    setDuration(
+                      Math.min(300, Math.max(1, Number(event.target.value)))
+                    )
+                  }
+                  style={{ width: '50px', fontSize: '12px' }}
+                />
+              </label>
+            )}
+          </div>
+
+          <div style={{ fontSize: '12px', opacity: 0.7 }}>
+            Frames are rendered at a fixed time step, so the video is smooth
+            even if the preview stutters.{' '}
+            {canRecordVideo()
+              ? 'Saves a WebM video.'
+              : 'This browser cannot encode video: saves a zip of PNG frames.'}
+          </div>
+
+          <button
+            onClick={() => onStart({ source, fps, duration })}
+            style={buttonStyle('#dc3545')}
+          >
+            ● Start Recording
+          </button>
+        </>
+      )}
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '12px' }}>{error}</div>
+      )}
+    </div>
+  );
+}
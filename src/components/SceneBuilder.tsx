@@ -0,0 +1,653 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import {
+  TransformControls,
+  type TransformControlsMode,
+} from 'three/addons/controls/TransformControls.js';
+import BuilderExportPanel from './BuilderExportPanel';
+import BuilderItemsPanel from './BuilderItemsPanel';
+import {
+  BUILDER_SHAPE_LABELS,
+  GROUND_SIZE,
+  createBuilderItem,
+  createEmptyDocument,
+  createItemObject,
+  groupItems,
+  loadBuilderDocument,
+  removeItem,
+  saveBuilderDocument,
+  ungroupItem,
+  type BuilderDocument,
+  type BuilderItem,
+  type BuilderShape,
+  type ColorName,
+} from '../utils/builderDocument';
+import { disposeObject3D } from '../utils/dispose';
+import { pickMesh } from '../utils/interaction';
+import { markPreviewHelper } from '../utils/previewHelpers';
+import {
+  COLORS,
+  createBasicLighting,
+  createGroundPlane,
+} from '../utils/primitives';
+import { readTransform } from '../utils/transformChanges';
+
+interface BuilderViewport {
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  orbit: OrbitControls;
+  gizmo: TransformControls;
+  /** Holds the ground and the builder's objects, rebuilt on every change */
+  content: THREE.Group;
+}
+
+// dataTransfer type of shapes dragged from the palette
+const SHAPE_DRAG_TYPE = 'application/x-builder-shape';
+
+// Dropped shapes land on this grid
+const GRID_STEP = 0.5;
+
+const buttonStyle = (backgroundColor: string) => ({
+  padding: '4px 8px',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+});
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  padding: '3px',
+};
+
+const sectionStyle = {
+  borderTop: '1px solid rgba(255, 255, 255, 0.2)',
+  paddingTop: '10px',
+  marginTop: '10px',
+};
+
+const snap = (value: number): number =>
+  Math.round(value / GRID_STEP) * GRID_STEP;
+
+/**
+ * Drag-and-drop editor to lay out primitives and export them as a scene
+ * folder, for people who would rather not write the code by hand
+ */
+export default function SceneBuilder() {
+  const navigate = useNavigate();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<BuilderViewport | null>(null);
+  const objectsRef = useRef(new Map<string, THREE.Object3D>());
+  const selectionHelpersRef = useRef<THREE.BoxHelper[]>([]);
+  const [draft, setDraft] = useState<BuilderDocument>(loadBuilderDocument);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [gizmoMode, setGizmoMode] =
+    useState<TransformControlsMode>('translate');
+  const [showExport, setShowExport] = useState(false);
+
+  // Three.js setup, once
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+    renderer.setPixelRatio(window.devicePixelRatio);
+    renderer.setSize(window.innerWidth, window.innerHeight);
+    renderer.shadowMap.enabled = true;
+
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(COLORS.SKY_BLUE);
+    createBasicLighting(scene);
+    scene.add(
+      markPreviewHelper(
+        new THREE.GridHelper(GROUND_SIZE, GROUND_SIZE / GRID_STEP, 0x666666)
+      )
+    );
+    const content = new THREE.Group();
+    scene.add(content);
+
+    const camera = new THREE.PerspectiveCamera(
+      60,
+      window.innerWidth / window.innerHeight,
+      0.1,
+      1000
+    );
+    camera.position.set(12, 10, 12);
+
+    const orbit = new OrbitControls(camera, canvas);
+    orbit.enableDamping = true;
+
+    const gizmo = new TransformControls(camera, canvas);
+    gizmo.setTranslationSnap(GRID_STEP);
+    gizmo.addEventListener('dragging-changed', ({ value }) => {
+      orbit.enabled = !value;
+      const object = gizmo.object;
+      if (value || !object) return;
+
+      // Write the dragged transform back into the document
+      const id = object.userData.builderId as string;
+      const transform = readTransform(object);
+      setDraft((prev) => ({
+        ...prev,
+        items: prev.items.map((item) =>
+          item.id === id ? { ...item, ...transform } : item
+        ),
+      }));
+    });
+    scene.add(markPreviewHelper(gizmo.getHelper()));
+
+    viewportRef.current = { scene, camera, orbit, gizmo, content };
+
+    // Click to select, unless the press was a drag or started on the gizmo
+    let pressX = 0;
+    let pressY = 0;
+    let pressedOnGizmo = false;
+    const onPointerDown = (event: PointerEvent) => {
+      pressX = event.clientX;
+      pressY = event.clientY;
+      // The gizmo's own listener runs first and has started dragging
+      pressedOnGizmo = gizmo.dragging;
+    };
+    const onPointerUp = (event: PointerEvent) => {
+      if (event.button !== 0 || pressedOnGizmo) return;
+      if (Math.hypot(event.clientX - pressX, event.clientY - pressY) > 4) {
+        return;
+      }
+
+      const rect = canvas.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      let object: THREE.Object3D | null = pickMesh(scene, camera, pointer);
+      while (object && object.userData.builderId === undefined) {
+        object = object.parent;
+      }
+      const id = object?.userData.builderId as string | undefined;
+      const additive = event.shiftKey || event.metaKey;
+
+      setSelectedIds((prev) => {
+        if (!id) return additive ? prev : [];
+        if (!additive) return [id];
+        return prev.includes(id)
+          ? prev.filter((selected) => selected !== id)
+          : [...prev, id];
+      });
+    };
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointerup', onPointerUp);
+
+    const onResize = () => {
+      camera.aspect = window.innerWidth / window.innerHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(window.innerWidth, window.innerHeight);
+    };
+    window.addEventListener('resize', onResize);
+
+    let animationId = 0;
+    const animate = () => {
+      orbit.update();
+      selectionHelpersRef.current.forEach((helper) => helper.update());
+      renderer.render(scene, camera);
+      animationId = requestAnimationFrame(animate);
+    };
+    animate();
+
+    return () => {
+      cancelAnimationFrame(animationId);
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('resize', onResize);
+      gizmo.dispose();
+      orbit.dispose();
+      disposeObject3D(scene);
+      renderer.dispose();
+      viewportRef.current = null;
+    };
+  }, []);
+
+  // Rebuild the objects from the document. Builder scenes are small, so
+  // starting over is simpler than diffing.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const { content } = viewport;
+    const objects = objectsRef.current;
+
+    disposeObject3D(content);
+    content.clear();
+    objects.clear();
+
+    if (draft.ground) {
+      content.add(
+        createGroundPlane({
+          size: GROUND_SIZE,
+          color: COLORS[draft.groundColor],
+        })
+      );
+    }
+
+    for (const item of draft.items) {
+      const object = createItemObject(item);
+      object.userData.builderId = item.id;
+      objects.set(item.id, object);
+    }
+    // Parents are created above, whatever the order of the items
+    for (const item of draft.items) {
+      const parent = item.parentId ? objects.get(item.parentId) : content;
+      (parent ?? content).add(objects.get(item.id)!);
+    }
+  }, [draft.items, draft.ground, draft.groundColor]);
+
+  // Outline the selection and put the gizmo on a single selected object
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const { scene, gizmo } = viewport;
+    const objects = selectedIds
+      .map((id) => objectsRef.current.get(id))
+      .filter((object) => object !== undefined);
+
+    if (objects.length === 1) {
+      gizmo.attach(objects[0]);
+    } else {
+      gizmo.detach();
+    }
+    gizmo.setMode(gizmoMode);
+
+    const helpers = objects.map((object) =>
+      markPreviewHelper(new THREE.BoxHelper(object, 0x00ffff))
+    );
+    helpers.forEach((helper) => scene.add(helper));
+    selectionHelpersRef.current = helpers;
+
+    return () => {
+      helpers.forEach((helper) => {
+        scene.remove(helper);
+        helper.dispose();
+      });
+      selectionHelpersRef.current = [];
+    };
+  }, [selectedIds, gizmoMode, draft.items]);
+
+  useEffect(() => {
+    saveBuilderDocument(draft);
+  }, [draft]);
+
+  const updateDraft = (changes: Partial<BuilderDocument>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  const updateItem = (id: string, changes: Partial<BuilderItem>) =>
+    setDraft((prev) => ({
+      ...prev,
+      items: prev.items.map((item) =>
+        item.id === id ? { ...item, ...changes } : item
+      ),
+    }));
+
+  const addShape = (type: BuilderShape, at?: { x: number; z: number }) => {
+    const target = viewportRef.current?.orbit.target;
+    const item = createBuilderItem(
+      type,
+      draft.items,
+      at ?? { x: snap(target?.x ?? 0), z: snap(target?.z ?? 0) }
+    );
+    updateDraft({ items: [...draft.items, item] });
+    setSelectedIds([item.id]);
+  };
+
+  const onDrop = (event: React.DragEvent<HTMLCanvasElement>) => {
+    const type = event.dataTransfer.getData(SHAPE_DRAG_TYPE) as BuilderShape;
+    const viewport = viewportRef.current;
+    if (!(type in BUILDER_SHAPE_LABELS) || !viewport) return;
+    event.preventDefault();
+
+    // Drop onto the ground plane under the cursor
+    const rect = event.currentTarget.getBoundingClientRect();
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(
+      new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      ),
+      viewport.camera
+    );
+    const point = raycaster.ray.intersectPlane(
+      new THREE.Plane(new THREE.Vector3(0, 1, 0), 0),
+      new THREE.Vector3()
+    );
+    addShape(type, point ? { x: snap(point.x), z: snap(point.z) } : undefined);
+  };
+
+  const deleteSelected = () => {
+    setDraft((prev) => ({
+      ...prev,
+      items: selectedIds.reduce(removeItem, prev.items),
+    }));
+    setSelectedIds([]);
+  };
+
+  const groupSelected = () => {
+    const { items, group } = groupItems(draft.items, selectedIds);
+    updateDraft({ items });
+    setSelectedIds([group.id]);
+  };
+
+  const ungroupSelected = () => {
+    updateDraft({ items: ungroupItem(draft.items, selectedIds[0]) });
+    setSelectedIds([]);
+  };
+
+  const captureTourPoint = () => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const { x, y, z } = viewport.camera.position;
+    const target = viewport.orbit.target;
+    updateDraft({
+      tourPoints: [
+        ...draft.tourPoints,
+        {
+          name: `Point ${draft.tourPoints.length + 1}`,
+          description: '',
+          cameraPosition: { x, y, z },
+          lookAtTarget: { x: target.x, y: target.y, z: target.z },
+          duration: 3,
+        },
+      ],
+    });
+  };
+
+  const goToTourPoint = (index: number) => {
+    const viewport = viewportRef.current;
+    const point = draft.tourPoints[index];
+    if (!viewport || !point) return;
+    const { x, y, z } = point.cameraPosition;
+    viewport.camera.position.set(x, y, z);
+    viewport.orbit.target.set(
+      point.lookAtTarget.x,
+      point.lookAtTarget.y,
+      point.lookAtTarget.z
+    );
+  };
+
+  const startOver = () => {
+    if (window.confirm('Clear the builder and start a new scene?')) {
+      setDraft(createEmptyDocument());
+      setSelectedIds([]);
+    }
+  };
+
+  // Delete removes the selection, Escape clears it
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.closest('input, textarea, select')) return;
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        deleteSelected();
+      } else if (event.key === 'Escape') {
+        setSelectedIds([]);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedIds]);
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100vh' }}>
+      <canvas
+        ref={canvasRef}
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={onDrop}
+        style={{ display: 'block', width: '100%', height: '100%' }}
+      />
+
+      {/* Scene settings, shapes and tour points */}
+      <div
+        style={{
+          position: 'absolute',
+          top: '20px',
+          left: '20px',
+          bottom: '80px',
+          width: '260px',
+          overflowY: 'auto',
+          backgroundColor: 'rgba(0, 0, 0, 0.85)',
+          color: 'white',
+          padding: '15px',
+          borderRadius: '8px',
+          fontSize: '12px',
+          boxSizing: 'border-box',
+        }}
+      >
+        <strong style={{ fontSize: '14px' }}>Scene Builder</strong>
+
+        <label style={{ display: 'block', marginTop: '8px' }}>
+          Scene ID (folder name)
+          <input
+            value={draft.sceneId}
+            onChange={(event) => updateDraft({ sceneId: event.target.value })}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ display: 'block', marginTop: '6px' }}>
+          Name
+          <input
+            value={draft.sceneName}
+            onChange={(event) => updateDraft({ sceneName: event.target.value })}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ display: 'block', marginTop: '6px' }}>
+          Description
+          <textarea
+            value={draft.description}
+            rows={2}
+            onChange={(event) =>
+              updateDraft({ description: event.target.value })
+            }
+            style={{ ...inputStyle, resize: 'vertical' }}
+          />
+        </label>
+        <label style={{ display: 'block', marginTop: '6px' }}>
+          Authors (comma separated)
+          <input
+            value={draft.authors.join(', ')}
+            onChange={(event) =>
+              updateDraft({
+                authors: event.target.value
+                  .split(',')
+                  .map((author) => author.trim())
+                  .filter(Boolean),
+              })
+            }
+            style={inputStyle}
+          />
+        </label>
+        <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+          <label style={{ whiteSpace: 'nowrap', alignSelf: 'center' }}>
+            <input
+              type="checkbox"
+              checked={draft.ground}
+              onChange={(event) =>
+                updateDraft({ ground: event.target.checked })
+              }
+            />{' '}
+            Ground
+          </label>
+          <select
+            value={draft.groundColor}
+            disabled={!draft.ground}
+            onChange={(event) =>
+              updateDraft({ groundColor: event.target.value as ColorName })
+            }
+            style={inputStyle}
+          >
+            {(Object.keys(COLORS) as ColorName[]).map((name) => (
+              <option key={name} value={name}>
+                COLORS.{name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div style={sectionStyle}>
+          <strong>Shapes</strong>
+          <div style={{ opacity: 0.8, margin: '4px 0 6px' }}>
+            Drag onto the ground, or click to add at the centre.
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+            {(Object.keys(BUILDER_SHAPE_LABELS) as BuilderShape[]).map(
+              (type) => (
+                <button
+                  key={type}
+                  draggable
+                  onDragStart={(event) =>
+                    event.dataTransfer.setData(SHAPE_DRAG_TYPE, type)
+                  }
+                  onClick={() => addShape(type)}
+                  style={{ ...buttonStyle('#495057'), cursor: 'grab' }}
+                >
+                  {BUILDER_SHAPE_LABELS[type]}
+                </button>
+              )
+            )}
+          </div>
+        </div>
+
+        <div style={sectionStyle}>
+          <strong>Tour points</strong>
+          <div style={{ opacity: 0.8, margin: '4px 0 6px' }}>
+            Frame a view with the mouse, then capture it.
+          </div>
+          <button onClick={captureTourPoint} style={buttonStyle('#28a745')}>
+            + Capture view
+          </button>
+          {draft.tourPoints.map((point, index) => (
+            <div
+              key={index}
+              style={{ display: 'flex', gap: '4px', marginTop: '4px' }}
+            >
+              <input
+                value={point.name}
+                onChange={(event) =>
+                  updateDraft({
+                    tourPoints: draft.tourPoints.map((other, i) =>
+                      i === index
+                        ? { ...other, name: event.target.value }
+                        : other
+                    ),
+                  })
+                }
+                style={inputStyle}
+              />
+              <button
+                onClick={() => goToTourPoint(index)}
+                title="Go to this view"
+                style={buttonStyle('#17a2b8')}
+              >
+                👁
+              </button>
+              <button
+                onClick={() =>
+                  updateDraft({
+                    tourPoints: draft.tourPoints.filter((_, i) => i !== index),
+                  })
+                }
+                title="Remove"
+                style={buttonStyle('#dc3545')}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <BuilderItemsPanel
+        items={draft.items}
+        selectedIds={selectedIds}
+        onSelect={(id, additive) =>
+          setSelectedIds((prev) => {
+            if (!additive) return [id];
+            return prev.includes(id)
+              ? prev.filter((selected) => selected !== id)
+              : [...prev, id];
+          })
+        }
+        onUpdate={updateItem}
+        onGroup={groupSelected}
+        onUngroup={ungroupSelected}
+        onDelete={deleteSelected}
+        gizmoMode={gizmoMode}
+        onGizmoModeChange={setGizmoMode}
+      />
+
+      {/* Action Buttons */}
+      <div
+        style={{
+          position: 'absolute',
+          bottom: '20px',
+          left: '20px',
+          display: 'flex',
+          gap: '10px',
+        }}
+      >
+        <button
+          onClick={() => navigate('/')}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#666',
+            color: 'white',
+            border: 'none',
+            borderRadius: '5px',
+            cursor: 'pointer',
+            fontSize: '14px',
+          }}
+        >
+          ← Back
+        </button>
+        <button
+          onClick={startOver}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#6c757d',
+            color: 'white',
+            border: 'none',
+            borderRadius: '5px',
+            cursor: 'pointer',
+            fontSize: '14px',
+          }}
+        >
+          New Scene
+        </button>
+        <button
+          onClick={() => setShowExport(true)}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#6f42c1',
+            color: 'white',
+            border: 'none',
+            borderRadius: '5px',
+            cursor: 'pointer',
+            fontSize: '14px',
+          }}
+        >
+          📦 Export Scene
+        </button>
+      </div>
+
+      {showExport && (
+        <BuilderExportPanel
+          draft={draft}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,170 @@
-import { useEffect, useRef, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import * as THREE from 'three';
+import { TransformControls } from 'three/addons/controls/TransformControls.js';
+import { createSceneInstance } from '../scenes/registry';
+import type {
+  Hotspot,
+  SceneInteractionEvent,
+  SceneInterface,
+  SceneLoadProgress,
+  SceneParameterValue,
+  SceneParameterValues,
+  TourConfig,
+  TourPoint,
+} from '../types/scene';
+import DebugPanel from './DebugPanel';
+import GltfExportPanel from './GltfExportPanel';
+import HistoryPanel from './HistoryPanel';
+import HotspotLayer from './HotspotLayer';
+import OutlinerPanel, { type GizmoOptions } from './OutlinerPanel';
+import ParameterPanel from './ParameterPanel';
+import RecorderPanel, { type RecordingProgress } from './RecorderPanel';
+import ScreenshotPanel from './ScreenshotPanel';
+import StatsOverlay from './StatsOverlay';
+import TourEditorPanel from './TourEditorPanel';
+import TransportBar from './TransportBar';
 import {
-  createSceneInstance,
-  validateSceneInterface,
-} from '../scenes/registry';
-import type { SceneInterface } from '../types/scene';
+  DEFAULT_DEBUG_VIEW,
+  DebugView,
+  type DebugViewOptions,
+} from '../utils/debugView';
+import { disposeObject3D } from '../utils/dispose';
+import { downloadBlob } from '../utils/download';
+import { exportSceneToGltf, type GltfExportOptions } from '../utils/gltfExport';
+import {
+  applyCommand,
+  createObjectCommand,
+  EMPTY_HISTORY,
+  loadEditHistory,
+  pushCommand,
+  saveEditHistory,
+  type EditCommand,
+  type EditHistory,
+  type ObjectEdit,
+} from '../utils/editHistory';
+import {
+  createFrameRecorder,
+  type RecordingOptions,
+} from '../utils/frameRecorder';
+import {
+  pickInteractive,
+  pickMesh,
+  setHighlighted,
+} from '../utils/interaction';
+import { trackAssetLoading } from '../utils/loadProgress';
+import { markPreviewHelper } from '../utils/previewHelpers';
+import { RenderStats } from '../utils/renderStats';
+import {
+  getDefaultParameterValues,
+  getParametersInSearch,
+  readParametersFromSearch,
+  writeParametersToSearch,
+} from '../utils/sceneParameters';
+import { SceneClock } from '../utils/sceneClock';
+import { resolveSceneView, type ResolvedSceneView } from '../utils/sceneView';
+import { captureScreenshot, type ScreenshotOptions } from '../utils/screenshot';
+import { TourPlayer, type CameraPose } from '../utils/tourPlayer';
+import { readTransform, type Transform } from '../utils/transformChanges';
+import {
+  readViewStateFromSearch,
+  serializeOrbit,
+  writeViewStateToSearch,
+  type OrbitState,
+  type ViewState,
+} from '../utils/viewState';
+
+// Delay before camera moves are written to the URL
+const VIEW_URL_DEBOUNCE_MS = 400;
+
+// Longest tour recording, in case a tour never ends
+const MAX_RECORDING_SECONDS = 600;
+
+// Gizmo steps while snapping is on
+const GIZMO_TRANSLATION_SNAP = 0.5;
+const GIZMO_ROTATION_SNAP = THREE.MathUtils.degToRad(15);
+const GIZMO_SCALE_SNAP = 0.1;
+
+const LOAD_STAGE_LABELS: Record<SceneLoadProgress['stage'], string> = {
+  module: 'Downloading scene...',
+  instance: 'Creating scene...',
+  build: 'Building scene...',
+  assets: 'Loading assets...',
+  ready: 'Ready',
+};
 
 interface ScenePreviewProps {
   sceneId?: string;
   onBack?: () => void;
+
+  /**
+   * Start the scene's tour as soon as the scene is built
+   */
+  autoStartTour?: boolean;
+
+  /**
+   * Go back to the first tour point after the last one (default true)
+   */
+  loopTour?: boolean;
+
+  /**
+   * Called when a tour starts playing
+   */
+  onTourStart?: () => void;
+
+  /**
+   * Called when a tour that does not loop has finished
+   */
+  onTourComplete?: () => void;
+
+  /**
+   * Called once the scene is built and rendering
+   */
+  onReady?: (scene: SceneInterface) => void;
+
+  /**
+   * Called when the scene fails to load or build
+   */
+  onError?: (message: string) => void;
+
+  /**
+   * Only show the 3D view, without panels, buttons or hotspots
+   */
+  hideOverlays?: boolean;
 }
 export default function ScenePreview({
   sceneId: propSceneId,
   onBack,
+  autoStartTour = false,
+  loopTour = true,
+  onTourStart,
+  onTourComplete,
+  onReady,
+  onError,
+  hideOverlays = false,
 }: ScenePreviewProps) {
   const { sceneId: urlSceneId } = useParams<{ sceneId: string }>();
   const navigate = useNavigate();
+  const [, setSearchParams] = useSearchParams();
   const sceneId = propSceneId || urlSceneId;
+  // Embedded previews don't own the URL, only the /scene/:sceneId route does
+  const syncViewToUrl = !propSceneId;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const sceneRef = useRef<THREE.Scene | undefined>(undefined);
   const rendererRef = useRef<THREE.WebGLRenderer | undefined>(undefined);
   const cameraRef = useRef<THREE.PerspectiveCamera | undefined>(undefined);
   const animationIdRef = useRef<number | undefined>(undefined);
-  const mouseRef = useRef({ isDown: false, lastX: 0, lastY: 0, button: 0 });
-  const cameraStateRef = useRef({
+  const viewRef = useRef<ResolvedSceneView>(resolveSceneView());
+  const mouseRef = useRef({
+    isDown: false,
+    lastX: 0,
+    lastY: 0,
+    downX: 0,
+    downY: 0,
+    button: 0,
+  });
+  const hoveredRef = useRef<SceneInteractionEvent | null>(null);
+  const cameraStateRef = useRef<OrbitState>({
     phi: 0,
     theta: 0,
     radius: 15,
@@ -35,8 +175,15 @@ export default function ScenePreview({
     null
   );
   const [loading, setLoading] = useState(true);
+  const [loadProgress, setLoadProgress] = useState<SceneLoadProgress>({
+    stage: 'module',
+    progress: 0,
+  });
   const [error, setError] = useState<string | null>(null);
   const [hotReloadKey, setHotReloadKey] = useState(0);
+  const [parameterValues, setParameterValues] = useState<SceneParameterValues>(
+    {}
+  );
 
   const handleBack = () => {
     if (onBack) {
@@ -45,11 +192,83 @@ export default function ScenePreview({
       navigate('/');
     }
   };
+  const [selectedHotspotId, setSelectedHotspotId] = useState<string | null>(
+    null
+  );
   const [showTour, setShowTour] = useState(false);
+  const [activeTourPoints, setActiveTourPoints] = useState<TourPoint[]>([]);
+  const [editingTour, setEditingTour] = useState(false);
+  const [tourMode, setTourMode] = useState<TourConfig['mode']>('points');
   const [currentTourPoint, setCurrentTourPoint] = useState(0);
-  const tourAnimationRef = useRef<number | undefined>(undefined);
-  const autoTourTimeoutRef = useRef<number | undefined>(undefined);
-  const isAutoTourRef = useRef(false);
+  const [showStats, setShowStats] = useState(false);
+  const [debugOptions, setDebugOptions] =
+    useState<DebugViewOptions>(DEFAULT_DEBUG_VIEW);
+  const debugViewRef = useRef<DebugView | null>(null);
+  const [showOutliner, setShowOutliner] = useState(false);
+  const [selectedObject, setSelectedObject] = useState<THREE.Object3D | null>(
+    null
+  );
+  const selectionHelperRef = useRef<THREE.BoxHelper | null>(null);
+  const transformControlsRef = useRef<TransformControls | null>(null);
+  // Set while a press started on the gizmo, so it does not orbit or click
+  const gizmoPressRef = useRef(false);
+  const [gizmo, setGizmo] = useState<GizmoOptions>({
+    mode: 'translate',
+    snap: false,
+  });
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  // Saving waits until the saved history has been replayed onto the scene
+  const historyReadyRef = useRef(false);
+  // Read by the click handler, which is bound once per scene
+  const outlinerOpenRef = useRef(showOutliner);
+  outlinerOpenRef.current = showOutliner;
+  // Latest callbacks, for code that outlives the render it was created in
+  const callbacksRef = useRef({
+    onTourStart,
+    onTourComplete,
+    onReady,
+    onError,
+  });
+  callbacksRef.current = { onTourStart, onTourComplete, onReady, onError };
+
+  // Latest shareable UI state, read when camera moves are written to the URL
+  const uiStateRef = useRef({
+    showTour,
+    currentTourPoint,
+    tourMode,
+    selectedHotspotId,
+    showStats,
+    debugOptions,
+  });
+  uiStateRef.current = {
+    showTour,
+    currentTourPoint,
+    tourMode,
+    selectedHotspotId,
+    showStats,
+    debugOptions,
+  };
+  const defaultOrbitRef = useRef('');
+  const defaultTourModeRef = useRef<TourConfig['mode']>('points');
+  const viewUrlReadyRef = useRef(false);
+  const viewUrlTimeoutRef = useRef<number | undefined>(undefined);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [toolPanel, setToolPanel] = useState<
+    'screenshot' | 'recorder' | 'gltf' | null
+  >(null);
+  const recordingRef = useRef<{ stopRequested: boolean } | null>(null);
+  const [recording, setRecording] = useState<RecordingProgress | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+
+  const [clock] = useState(() => new SceneClock());
+  const [renderStats] = useState(() => new RenderStats());
+  const [tourPlayer] = useState(
+    () =>
+      new TourPlayer({
+        onPointChange: setCurrentTourPoint,
+        onComplete: () => callbacksRef.current.onTourComplete?.(),
+      })
+  );
 
   // Hot reload functionality
   useEffect(() => {
@@ -87,20 +306,34 @@ export default function ScenePreview({
         );
         setLoading(true);
         setError(null);
-
-        const isValid = await validateSceneInterface(sceneId);
-        if (!isValid) {
-          throw new Error(
-            `Scene ${sceneId} does not implement the required interface correctly`
-          );
-        }
-
-        const instance = await createSceneInstance(sceneId);
+        setLoadProgress({ stage: 'module', progress: 0 });
+        const shared = syncViewToUrl
+          ? readViewStateFromSearch(new URLSearchParams(window.location.search))
+          : {};
+        setSelectedHotspotId(shared.hotspot ?? null);
+        setShowStats(shared.showStats ?? false);
+        setDebugOptions(shared.debugView ?? DEFAULT_DEBUG_VIEW);
+
+        const instance = await createSceneInstance(sceneId, setLoadProgress);
         console.log('Scene instance created:', instance.constructor.name, {
           sceneId: instance.sceneId,
           sceneName: instance.sceneName,
           description: instance.description,
         });
+
+        // Parameters shared through the URL apply before the scene is built
+        const values = instance.parameters
+          ? readParametersFromSearch(
+              instance.parameters,
+              new URLSearchParams(window.location.search)
+            )
+          : {};
+        Object.entries(values).forEach(([name, value]) =>
+          instance.setParameter?.(name, value)
+        );
+        setParameterValues(values);
+        setTourMode(shared.tourMode ?? instance.tour?.mode ?? 'points');
+
         setSceneInstance(instance);
       } catch (error) {
         console.error('Error creating scene:', error);
@@ -112,9 +345,12 @@ export default function ScenePreview({
     };
 
     initializeSceneData();
-  }, [sceneId, hotReloadKey]);
+  }, [sceneId, hotReloadKey, syncViewToUrl]);
 
   useEffect(() => {
+    let disposed = false;
+    let removeEventListeners: (() => void) | undefined;
+
     const initThreeJS = async () => {
       try {
         if (!canvasRef.current || !sceneInstance) {
@@ -122,33 +358,48 @@ export default function ScenePreview({
           return;
         }
 
+        const shared: ViewState = syncViewToUrl
+          ? readViewStateFromSearch(new URLSearchParams(window.location.search))
+          : {};
+
+        const view = resolveSceneView(sceneInstance.view);
+        viewRef.current = view;
+
         const scene = new THREE.Scene();
-        scene.background = new THREE.Color(0x87ceeb);
+        if (view.background !== null) {
+          scene.background = new THREE.Color(view.background);
+        }
         sceneRef.current = scene;
 
         const camera = new THREE.PerspectiveCamera(
-          75,
+          view.fov,
           window.innerWidth / window.innerHeight,
-          0.1,
-          1000
+          view.near,
+          view.far
         );
-        camera.position.set(15, 10, 15);
-        camera.lookAt(0, 2, 0);
+        camera.position.copy(view.cameraPosition);
+        camera.lookAt(view.target);
         cameraRef.current = camera;
 
-        const initialPos = camera.position;
-        const lookAt = new THREE.Vector3(0, 2, 0);
-        const direction = initialPos.clone().sub(lookAt);
-        const radius = direction.length();
-        const theta = Math.acos(direction.y / radius);
-        const phi = Math.atan2(direction.z, direction.x);
-
-        cameraStateRef.current = {
-          phi,
-          theta,
-          radius,
-          lookAtTarget: lookAt.clone(),
-        };
+        setOrbitFromPose(view.cameraPosition, view.target);
+        cameraStateRef.current.radius = THREE.MathUtils.clamp(
+          cameraStateRef.current.radius,
+          view.zoomMin,
+          view.zoomMax
+        );
+        defaultOrbitRef.current = serializeOrbit(cameraStateRef.current);
+        defaultTourModeRef.current = sceneInstance.tour?.mode ?? 'points';
+        if (shared.orbit) {
+          cameraStateRef.current = {
+            ...shared.orbit,
+            radius: THREE.MathUtils.clamp(
+              shared.orbit.radius,
+              view.zoomMin,
+              view.zoomMax
+            ),
+          };
+        }
+        updateCameraPosition();
 
         const renderer = new THREE.WebGLRenderer({
           canvas: canvasRef.current,
@@ -159,35 +410,73 @@ export default function ScenePreview({
         renderer.shadowMap.type = THREE.PCFSoftShadowMap;
         rendererRef.current = renderer;
 
-        const gridHelper = new THREE.GridHelper(50, 50, 0x888888, 0x888888);
-        gridHelper.material.opacity = 0.3;
-        gridHelper.material.transparent = true;
-        scene.add(gridHelper);
+        if (view.showGrid) {
+          const gridHelper = markPreviewHelper(
+            new THREE.GridHelper(
+              view.gridSize,
+              view.gridSize,
+              0x888888,
+              0x888888
+            )
+          );
+          gridHelper.material.opacity = 0.3;
+          gridHelper.material.transparent = true;
+          scene.add(gridHelper);
+        }
 
-        // Clear existing scene objects for hot reload (scenes handle their own lighting)
-        const childrenToRemove = scene.children.filter(
-          (child) => child.type !== 'GridHelper'
+        setLoadProgress({ stage: 'build', progress: 0.6 });
+        const assets = trackAssetLoading((loaded, total) =>
+          setLoadProgress({
+            stage: 'assets',
+            progress: 0.8 + 0.2 * (total > 0 ? loaded / total : 1),
+          })
+        );
+        try {
+          await sceneInstance.buildScene(scene);
+          await assets.done();
+        } finally {
+          assets.stop();
+        }
+        // Torn down (navigation, hot reload) while the scene was building
+        if (disposed) return;
+        setLoadProgress({ stage: 'ready', progress: 1 });
+
+        debugViewRef.current = new DebugView(scene, view.gridSize / 2);
+        transformControlsRef.current = createTransformControls(
+          scene,
+          camera,
+          renderer.domElement
         );
-        childrenToRemove.forEach((child) => {
-          scene.remove(child);
-          if (child.type === 'Mesh') {
-            const mesh = child as THREE.Mesh;
-            if (mesh.geometry) mesh.geometry.dispose();
-            if (mesh.material) {
-              if (Array.isArray(mesh.material)) {
-                mesh.material.forEach((material) => material.dispose());
-              } else {
-                mesh.material.dispose();
-              }
-            }
-          }
-        });
 
-        await sceneInstance.buildScene(scene);
-        setupEventListeners();
+        if (syncViewToUrl) {
+          restoreEditHistory(scene);
+        }
+        historyReadyRef.current = true;
+
+        removeEventListeners = setupEventListeners();
+        clock.reset();
+        renderStats.reset();
+        lastTimeRef.current = performance.now();
         animate();
 
         setLoading(false);
+        const sharedPoint =
+          shared.tourPoint !== undefined
+            ? sceneTourPoints[shared.tourPoint]
+            : undefined;
+        if (autoStartTour) {
+          startTour();
+        } else if (sharedPoint) {
+          // Open the shared tour point directly instead of flying there
+          setOrbitFromPose(
+            sharedPoint.cameraPosition,
+            sharedPoint.lookAtTarget
+          );
+          updateCameraPosition();
+          playTour(sceneTourPoints, false, shared.tourPoint);
+        }
+        viewUrlReadyRef.current = true;
+        callbacksRef.current.onReady?.(sceneInstance);
       } catch (error) {
         console.error('Error initializing Three.js:', error);
         setError(
@@ -202,9 +491,54 @@ export default function ScenePreview({
     if (canvasRef.current && sceneInstance && !error) {
       initThreeJS();
     }
+
+    return () => {
+      disposed = true;
+      removeEventListeners?.();
+      hoveredRef.current = null;
+      viewUrlReadyRef.current = false;
+      clearTimeout(viewUrlTimeoutRef.current);
+      if (recordingRef.current) {
+        recordingRef.current.stopRequested = true;
+      }
+
+      if (animationIdRef.current) {
+        cancelAnimationFrame(animationIdRef.current);
+        animationIdRef.current = undefined;
+      }
+      tourPlayer.stop();
+      debugViewRef.current?.dispose();
+      debugViewRef.current = null;
+      transformControlsRef.current?.dispose();
+      transformControlsRef.current = null;
+      setSelectedObject(null);
+      historyReadyRef.current = false;
+      setHistory(EMPTY_HISTORY);
+
+      try {
+        sceneInstance?.dispose?.();
+      } catch (error) {
+        console.error('Error disposing scene:', error);
+      }
+      if (sceneRef.current) {
+        disposeObject3D(sceneRef.current);
+        sceneRef.current = undefined;
+      }
+      if (rendererRef.current) {
+        rendererRef.current.renderLists.dispose();
+        rendererRef.current.dispose();
+        rendererRef.current = undefined;
+      }
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [sceneInstance, error]);
 
+  useEffect(() => {
+    if (error) {
+      callbacksRef.current.onError?.(error);
+    }
+  }, [error]);
+
   const setupEventListeners = () => {
     if (!canvasRef.current) return;
 
@@ -215,6 +549,7 @@ export default function ScenePreview({
     canvas.addEventListener('mousemove', onMouseMove);
     canvas.addEventListener('mouseup', onMouseUp);
     canvas.addEventListener('wheel', onWheel);
+    canvas.addEventListener('mouseleave', onMouseLeave);
 
     // Keyboard controls
     window.addEventListener('keydown', onKeyDown);
@@ -222,17 +557,78 @@ export default function ScenePreview({
 
     // Window resize
     window.addEventListener('resize', onWindowResize);
+
+    // Pause rendering while the tab is hidden
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      canvas.removeEventListener('mousedown', onMouseDown);
+      canvas.removeEventListener('mousemove', onMouseMove);
+      canvas.removeEventListener('mouseup', onMouseUp);
+      canvas.removeEventListener('wheel', onWheel);
+      canvas.removeEventListener('mouseleave', onMouseLeave);
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('resize', onWindowResize);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
   };
 
   const onMouseDown = (event: MouseEvent) => {
+    // The gizmo handles its own drags (its pointerdown runs first)
+    gizmoPressRef.current = transformControlsRef.current?.dragging ?? false;
+    if (gizmoPressRef.current) return;
+
     mouseRef.current.isDown = true;
     mouseRef.current.lastX = event.clientX;
     mouseRef.current.lastY = event.clientY;
+    mouseRef.current.downX = event.clientX;
+    mouseRef.current.downY = event.clientY;
     mouseRef.current.button = event.button;
   };
 
+  const pointerFromEvent = (event: MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+  };
+
+  const pickAt = (event: MouseEvent) => {
+    if (!canvasRef.current || !sceneRef.current || !cameraRef.current) {
+      return null;
+    }
+    return pickInteractive(
+      sceneRef.current,
+      cameraRef.current,
+      pointerFromEvent(event)
+    );
+  };
+
+  const setHovered = (hit: SceneInteractionEvent | null) => {
+    const previous = hoveredRef.current;
+    if (previous?.object === hit?.object) {
+      hoveredRef.current = hit;
+      return;
+    }
+
+    if (previous) setHighlighted(previous.object, false);
+    if (hit) setHighlighted(hit.object, true);
+    hoveredRef.current = hit;
+
+    if (canvasRef.current) {
+      canvasRef.current.style.cursor = hit ? 'pointer' : '';
+    }
+    sceneInstance?.onHover?.(hit);
+  };
+
   const onMouseMove = (event: MouseEvent) => {
-    if (!mouseRef.current.isDown || !cameraRef.current) return;
+    if (!mouseRef.current.isDown) {
+      setHovered(pickAt(event));
+      return;
+    }
+    if (!cameraRef.current) return;
 
     const deltaX = event.clientX - mouseRef.current.lastX;
     const deltaY = event.clientY - mouseRef.current.lastY;
@@ -277,19 +673,60 @@ export default function ScenePreview({
     mouseRef.current.lastY = event.clientY;
   };
 
-  const onMouseUp = () => {
+  const onMouseUp = (event: MouseEvent) => {
     mouseRef.current.isDown = false;
+    if (gizmoPressRef.current) {
+      gizmoPressRef.current = false;
+      return;
+    }
+
+    // A press and release without dragging is a click, not an orbit
+    const dragDistance = Math.hypot(
+      event.clientX - mouseRef.current.downX,
+      event.clientY - mouseRef.current.downY
+    );
+    if (event.button !== 0 || dragDistance > 4) return;
+
+    // With the outliner open, clicks also select any mesh for inspection
+    if (outlinerOpenRef.current && sceneRef.current && cameraRef.current) {
+      setSelectedObject(
+        pickMesh(sceneRef.current, cameraRef.current, pointerFromEvent(event))
+      );
+    }
+
+    const hit = pickAt(event);
+    if (hit) {
+      sceneInstance?.onClick?.(hit);
+    }
+  };
+
+  const onMouseLeave = () => {
+    setHovered(null);
   };
 
   const onWheel = (event: WheelEvent) => {
     event.preventDefault();
-    cameraStateRef.current.radius = Math.max(
-      5,
-      Math.min(50, cameraStateRef.current.radius + event.deltaY * 0.01)
+    const { zoomMin, zoomMax } = viewRef.current;
+    cameraStateRef.current.radius = THREE.MathUtils.clamp(
+      cameraStateRef.current.radius + event.deltaY * 0.01 * (zoomMax / 50),
+      zoomMin,
+      zoomMax
     );
     updateCameraPosition();
   };
 
+  const setOrbitFromPose = (position: THREE.Vector3, target: THREE.Vector3) => {
+    const direction = position.clone().sub(target);
+    const radius = direction.length();
+
+    cameraStateRef.current = {
+      phi: Math.atan2(direction.z, direction.x),
+      theta: radius > 0 ? Math.acos(direction.y / radius) : Math.PI / 2,
+      radius,
+      lookAtTarget: target.clone(),
+    };
+  };
+
   const updateCameraPosition = () => {
     if (!cameraRef.current) return;
 
@@ -301,11 +738,21 @@ export default function ScenePreview({
 
     cameraRef.current.position.set(x, y, z);
     cameraRef.current.lookAt(lookAtTarget);
+
+    clearTimeout(viewUrlTimeoutRef.current);
+    viewUrlTimeoutRef.current = window.setTimeout(
+      writeViewToUrl,
+      VIEW_URL_DEBOUNCE_MS
+    );
   };
 
   const keysPressed = useRef(new Set<string>());
 
   const onKeyDown = (event: KeyboardEvent) => {
+    // Typing in a panel field must not move the camera
+    if ((event.target as HTMLElement).closest('input, textarea, select')) {
+      return;
+    }
     keysPressed.current.add(event.code);
   };
 
@@ -364,6 +811,7 @@ export default function ScenePreview({
 
     const intervalId = setInterval(handleKeyboardMovement, 16); // ~60fps
     return () => clearInterval(intervalId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   const onWindowResize = () => {
@@ -376,6 +824,21 @@ export default function ScenePreview({
 
   const lastTimeRef = useRef<number>(performance.now());
 
+  const onVisibilityChange = () => {
+    if (document.hidden) {
+      if (animationIdRef.current) {
+        cancelAnimationFrame(animationIdRef.current);
+        animationIdRef.current = undefined;
+      }
+      sceneInstance?.onPause?.();
+    } else if (!animationIdRef.current && !recordingRef.current) {
+      // Don't count the time spent hidden as one huge frame
+      lastTimeRef.current = performance.now();
+      sceneInstance?.onResume?.();
+      animate();
+    }
+  };
+
   const animate = () => {
     if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return;
 
@@ -383,151 +846,557 @@ export default function ScenePreview({
     const deltaTime = (currentTime - lastTimeRef.current) / 1000; // Convert to seconds
     lastTimeRef.current = currentTime;
 
-    // Call scene animation if available
-    if (sceneInstance?.animate) {
-      sceneInstance.animate(deltaTime);
+    renderFrame(clock.tick(deltaTime));
+    renderStats.recordFrame(deltaTime * 1000, rendererRef.current.info);
+    animationIdRef.current = requestAnimationFrame(animate);
+  };
+
+  /**
+   * Advances the scene and the tour by `deltaTime` seconds of scene time
+   * and renders
+   */
+  const renderFrame = (deltaTime: number) => {
+    if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return;
+
+    // Call scene animation if available, unless the clock is paused
+    if (sceneInstance?.animate && deltaTime > 0) {
+      sceneInstance.animate(deltaTime, clock.elapsedTime);
+    }
+
+    const tourPose = tourPlayer.update(deltaTime);
+    if (tourPose) {
+      cameraRef.current.position.copy(tourPose.position);
+      cameraRef.current.lookAt(tourPose.target);
+      // Keep orbit controls in sync so dragging continues from here
+      setOrbitFromPose(tourPose.position, tourPose.target);
     }
 
+    debugViewRef.current?.update();
+    selectionHelperRef.current?.update();
     rendererRef.current.render(sceneRef.current, cameraRef.current);
-    animationIdRef.current = requestAnimationFrame(animate);
   };
 
-  const startTour = () => {
-    if (!sceneInstance || !sceneInstance.getTourPoints || !cameraRef.current)
-      return;
+  const updateParameters = (values: SceneParameterValues) => {
+    if (!sceneInstance?.parameters) return;
+
+    const parameters = sceneInstance.parameters;
+    setParameterValues((prev) => ({ ...prev, ...values }));
+    Object.entries(values).forEach(([name, value]) =>
+      sceneInstance.setParameter?.(name, value)
+    );
+    // Undo and redo can update several times before the next render, so
+    // merge into the live URL rather than this render's values
+    const search = new URLSearchParams(window.location.search);
+    setSearchParams(
+      writeParametersToSearch(
+        parameters,
+        { ...readParametersFromSearch(parameters, search), ...values },
+        search
+      ),
+      { replace: true }
+    );
+  };
+
+  /**
+   * Applies parameter values from the panel, recording them in the history
+   */
+  const editParameters = (values: SceneParameterValues) => {
+    const before = Object.fromEntries(
+      Object.keys(values).map((name) => [name, parameterValues[name]])
+    );
+    updateParameters(values);
+    pushEdit({ type: 'parameters', before, after: values, time: Date.now() });
+  };
+
+  const onParameterChange = (name: string, value: SceneParameterValue) => {
+    editParameters({ [name]: value });
+  };
+
+  const resetParameters = () => {
+    if (!sceneInstance?.parameters) return;
+    editParameters(getDefaultParameterValues(sceneInstance.parameters));
+  };
+
+  const sceneTourPoints = useMemo(
+    () => sceneInstance?.getTourPoints?.() ?? [],
+    [sceneInstance]
+  );
+
+  const hotspots = useMemo(
+    () => sceneInstance?.getHotspots?.() ?? [],
+    [sceneInstance]
+  );
+
+  const onHotspotSelect = (hotspot: Hotspot) => {
+    setSelectedHotspotId(hotspot.id);
+    if (!hotspot.tourPoint || !sceneInstance?.getTourPoints) return;
 
     const tourPoints = sceneInstance.getTourPoints();
-    if (tourPoints.length === 0) return;
+    const index = tourPoints.findIndex(
+      (point) => point.name === hotspot.tourPoint
+    );
+    if (index === -1) {
+      console.warn(
+        `Hotspot ${hotspot.id} links to unknown tour point "${hotspot.tourPoint}"`
+      );
+      return;
+    }
 
-    setShowTour(true);
-    setCurrentTourPoint(0);
-    isAutoTourRef.current = true;
-    animateToTourPoint(tourPoints[0], true); // true = auto-advance
+    goToTourPoint(index);
   };
 
-  const animateToTourPoint = (
-    tourPoint: {
-      cameraPosition: THREE.Vector3;
-      lookAtTarget: THREE.Vector3;
-      duration: number;
-    },
-    autoAdvance: boolean = true
+  const getCameraPose = (): CameraPose => ({
+    position: cameraRef.current?.position ?? new THREE.Vector3(),
+    target: cameraStateRef.current.lookAtTarget,
+  });
+
+  /**
+   * What a shared link should restore, leaving out anything at its default
+   */
+  const getViewState = (): ViewState => {
+    const {
+      showTour,
+      currentTourPoint,
+      tourMode,
+      selectedHotspotId,
+      showStats,
+      debugOptions,
+    } = uiStateRef.current;
+    const orbit = cameraStateRef.current;
+
+    return {
+      // A tour point already pins the camera
+      orbit:
+        showTour || serializeOrbit(orbit) === defaultOrbitRef.current
+          ? undefined
+          : orbit,
+      tourPoint: showTour ? currentTourPoint : undefined,
+      tourMode: tourMode !== defaultTourModeRef.current ? tourMode : undefined,
+      hotspot: selectedHotspotId ?? undefined,
+      showStats: showStats || undefined,
+      debugView: debugOptions,
+    };
+  };
+
+  const writeViewToUrl = () => {
+    if (!syncViewToUrl || !viewUrlReadyRef.current) return;
+
+    // Event handlers outlive renders, so start from the live URL rather
+    // than the search params of the render they were created in
+    setSearchParams(
+      writeViewStateToSearch(
+        getViewState(),
+        new URLSearchParams(window.location.search)
+      ),
+      { replace: true }
+    );
+  };
+
+  useEffect(() => {
+    writeViewToUrl();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    showTour,
+    currentTourPoint,
+    tourMode,
+    selectedHotspotId,
+    showStats,
+    debugOptions,
+  ]);
+
+  // Debug helpers need the built scene, apply them once it is ready
+  useEffect(() => {
+    if (!loading) {
+      debugViewRef.current?.apply(debugOptions);
+    }
+  }, [debugOptions, loading]);
+
+  // Outline the object selected in the outliner
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!selectedObject || !scene) return;
+
+    const helper = markPreviewHelper(
+      new THREE.BoxHelper(selectedObject, 0x00ffff)
+    );
+    scene.add(helper);
+    selectionHelperRef.current = helper;
+
+    return () => {
+      scene.remove(helper);
+      helper.dispose();
+      selectionHelperRef.current = null;
+    };
+  }, [selectedObject]);
+
+  /**
+   * Creates the gizmo used to move the object selected in the outliner,
+   * recording each drag as one history entry
+   */
+  const createTransformControls = (
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    domElement: HTMLElement
   ) => {
-    if (!cameraRef.current) return;
+    const controls = new TransformControls(camera, domElement);
+    let before: Transform | null = null;
+
+    controls.addEventListener('dragging-changed', ({ value }) => {
+      const object = controls.object;
+      if (!object) return;
+      if (value) {
+        before = readTransform(object);
+      } else if (before) {
+        const edit: ObjectEdit = {
+          type: 'transform',
+          before,
+          after: readTransform(object),
+        };
+        pushEdit(createObjectCommand(object, scene, edit, 'gizmo'));
+        before = null;
+      }
+    });
 
-    // Cancel any existing animations and timeouts
-    if (tourAnimationRef.current) {
-      cancelAnimationFrame(tourAnimationRef.current);
+    scene.add(markPreviewHelper(controls.getHelper()));
+    return controls;
+  };
+
+  const recordInspectorEdit = (object: THREE.Object3D, edit: ObjectEdit) => {
+    if (!sceneRef.current) return;
+    pushEdit(createObjectCommand(object, sceneRef.current, edit, 'inspector'));
+  };
+
+  const pushEdit = (command: EditCommand) => {
+    setHistory((prev) => pushCommand(prev, command));
+  };
+
+  /**
+   * Re-applies the edits saved for this scene, skipping those whose object
+   * the scene no longer builds. Parameters set by the URL keep the link's
+   * values, so a shared link shows what its sender saw.
+   */
+  const restoreEditHistory = (scene: THREE.Scene) => {
+    if (!sceneId) return;
+
+    const fromUrl = sceneInstance?.parameters
+      ? getParametersInSearch(
+          sceneInstance.parameters,
+          new URLSearchParams(window.location.search)
+        )
+      : [];
+    const setSavedParameters = (values: SceneParameterValues) => {
+      const kept = Object.fromEntries(
+        Object.entries(values).filter(([name]) => !fromUrl.includes(name))
+      );
+      if (Object.keys(kept).length > 0) updateParameters(kept);
+    };
+
+    const saved = loadEditHistory(sceneId);
+    saved.entries.slice(0, saved.cursor).forEach((command) => {
+      if (!applyCommand(command, 'after', scene, setSavedParameters)) {
+        console.warn(
+          'Skipping saved edit of an object that is gone or changed:',
+          command
+        );
+      }
+    });
+    setHistory(saved);
+  };
+
+  /**
+   * Undoes or redoes edits until the first `cursor` ones are applied
+   */
+  const jumpInHistory = (cursor: number) => {
+    const scene = sceneRef.current;
+    const { entries, cursor: current } = history;
+    if (!scene || cursor < 0 || cursor > entries.length) return;
+
+    for (let index = current - 1; index >= cursor; index--) {
+      applyCommand(entries[index], 'before', scene, updateParameters);
     }
-    if (autoTourTimeoutRef.current) {
-      window.clearTimeout(autoTourTimeoutRef.current);
+    for (let index = current; index < cursor; index++) {
+      applyCommand(entries[index], 'after', scene, updateParameters);
     }
+    setHistory({ entries, cursor });
+  };
 
-    const startPos = cameraRef.current.position.clone();
-    const targetPos = tourPoint.cameraPosition;
-    const targetLookAt = tourPoint.lookAtTarget;
-
-    let progress = 0;
-    const duration = 2000; // 2 seconds to move to point
-
-    const animateTour = () => {
-      progress += 16 / duration;
-
-      if (progress >= 1) {
-        cameraRef.current!.position.copy(targetPos);
-        cameraRef.current!.lookAt(targetLookAt);
-
-        // Only auto-advance if this is an auto tour
-        if (autoAdvance && isAutoTourRef.current) {
-          autoTourTimeoutRef.current = window.setTimeout(() => {
-            // Double-check tour is still active
-            if (!isAutoTourRef.current || !sceneInstance?.getTourPoints) return;
-
-            const tourPoints = sceneInstance.getTourPoints();
-            if (tourPoints.length === 0) return;
-
-            // Get current point from state and advance
-            setCurrentTourPoint((prev) => {
-              const nextIndex = (prev + 1) % tourPoints.length;
-              // Move to next point
-              window.setTimeout(() => {
-                if (isAutoTourRef.current) {
-                  animateToTourPoint(tourPoints[nextIndex], true);
-                }
-              }, 0);
-              return nextIndex;
-            });
-          }, tourPoint.duration * 1000);
-        }
+  // Read by the keyboard shortcuts, which are bound once
+  const jumpInHistoryRef = useRef(jumpInHistory);
+  jumpInHistoryRef.current = jumpInHistory;
+  const historyCursorRef = useRef(history.cursor);
+  historyCursorRef.current = history.cursor;
 
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Leave undo in text fields to the browser
+      const target = event.target as HTMLElement;
+      if (
+        target.tagName === 'INPUT' ||
+        target.tagName === 'TEXTAREA' ||
+        target.tagName === 'SELECT'
+      ) {
         return;
       }
 
-      const currentPos = startPos.clone().lerp(targetPos, progress);
-      cameraRef.current!.position.copy(currentPos);
-      cameraRef.current!.lookAt(targetLookAt);
-
-      tourAnimationRef.current = requestAnimationFrame(animateTour);
+      const key = event.key.toLowerCase();
+      const cursor = historyCursorRef.current;
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        jumpInHistoryRef.current(cursor - 1);
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        jumpInHistoryRef.current(cursor + 1);
+      }
     };
 
-    animateTour();
-  };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
-  const stopTour = () => {
-    setShowTour(false);
-    setCurrentTourPoint(0);
-    isAutoTourRef.current = false;
+  // Only edits save, switching scenes resets the history before the next one
+  useEffect(() => {
+    if (sceneId && syncViewToUrl && historyReadyRef.current) {
+      saveEditHistory(sceneId, history);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [history]);
 
-    if (tourAnimationRef.current) {
-      cancelAnimationFrame(tourAnimationRef.current);
+  // Follow the selection and the gizmo settings
+  useEffect(() => {
+    const controls = transformControlsRef.current;
+    if (!controls) return;
+
+    if (selectedObject) {
+      controls.attach(selectedObject);
+    } else {
+      controls.detach();
     }
-    if (autoTourTimeoutRef.current) {
-      window.clearTimeout(autoTourTimeoutRef.current);
+    controls.setMode(gizmo.mode);
+    controls.setTranslationSnap(gizmo.snap ? GIZMO_TRANSLATION_SNAP : null);
+    controls.setRotationSnap(gizmo.snap ? GIZMO_ROTATION_SNAP : null);
+    controls.setScaleSnap(gizmo.snap ? GIZMO_SCALE_SNAP : null);
+  }, [selectedObject, gizmo]);
+
+  const closeOutliner = () => {
+    setShowOutliner(false);
+    setSelectedObject(null);
+  };
+
+  const copyViewLink = async () => {
+    const url = new URL(window.location.href);
+    url.search = writeViewStateToSearch(
+      getViewState(),
+      url.searchParams
+    ).toString();
+
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.warn('Could not copy link to clipboard:', error);
+      window.prompt('Copy this link:', url.toString());
     }
   };
 
-  const goToNextTourPoint = () => {
-    if (!sceneInstance?.getTourPoints) return;
-    isAutoTourRef.current = false; // Stop auto tour
-    const tourPoints = sceneInstance.getTourPoints();
-    const nextIndex = (currentTourPoint + 1) % tourPoints.length;
-    setCurrentTourPoint(nextIndex);
-    animateToTourPoint(tourPoints[nextIndex], false);
+  const captureView = async (options: ScreenshotOptions) => {
+    if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return;
+
+    const blob = await captureScreenshot(
+      rendererRef.current,
+      sceneRef.current,
+      cameraRef.current,
+      options
+    );
+    downloadBlob(blob, `${sceneId}-${options.width}x${options.height}.png`);
   };
 
-  const goToPreviousTourPoint = () => {
-    if (!sceneInstance?.getTourPoints) return;
-    isAutoTourRef.current = false; // Stop auto tour
-    const tourPoints = sceneInstance.getTourPoints();
-    const prevIndex =
-      currentTourPoint === 0 ? tourPoints.length - 1 : currentTourPoint - 1;
-    setCurrentTourPoint(prevIndex);
-    animateToTourPoint(tourPoints[prevIndex], false);
+  const exportModel = async (options: GltfExportOptions) => {
+    if (!sceneRef.current || !sceneInstance) return;
+
+    const blob = await exportSceneToGltf(
+      sceneRef.current,
+      sceneInstance.sceneName,
+      options,
+      async () => {
+        const instance = await createSceneInstance(sceneInstance.sceneId);
+        Object.entries(parameterValues).forEach(([name, value]) =>
+          instance.setParameter?.(name, value)
+        );
+        return instance;
+      }
+    );
+    downloadBlob(blob, `${sceneId}.${options.binary ? 'glb' : 'gltf'}`);
   };
 
-  useEffect(() => {
-    // Cleanup function for component unmount
-    return () => {
-      if (animationIdRef.current) {
-        cancelAnimationFrame(animationIdRef.current);
+  /**
+   * Records frames at a fixed time step: the render loop is taken over so
+   * every frame advances the scene by exactly 1 / fps, however long it
+   * takes to render and encode
+   */
+  const startRecording = async ({
+    source,
+    fps,
+    duration,
+  }: RecordingOptions) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !sceneInstance || recordingRef.current) return;
+
+    const session = { stopRequested: false };
+    recordingRef.current = session;
+    setRecordingError(null);
+    setRecording({ frames: 0, fps });
+
+    let recorder;
+    try {
+      recorder = await createFrameRecorder(canvas.width, canvas.height, fps);
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      setRecordingError(
+        error instanceof Error ? error.message : 'Could not start recording'
+      );
+      recordingRef.current = null;
+      setRecording(null);
+      return;
+    }
+
+    if (animationIdRef.current) {
+      cancelAnimationFrame(animationIdRef.current);
+      animationIdRef.current = undefined;
+    }
+
+    if (source === 'tour') {
+      // Start right on the first point rather than flying there
+      const [first] = sceneTourPoints;
+      setOrbitFromPose(first.cameraPosition, first.lookAtTarget);
+      updateCameraPosition();
+      setShowTour(true);
+      setActiveTourPoints(sceneTourPoints);
+      tourPlayer.start(sceneTourPoints, 0, getCameraPose(), {
+        loop: false,
+        config: { ...sceneInstance.tour, mode: tourMode },
+      });
+    }
+
+    const maxFrames =
+      (source === 'tour' ? MAX_RECORDING_SECONDS : duration) * fps;
+    let frames = 0;
+    try {
+      while (
+        !session.stopRequested &&
+        frames < maxFrames &&
+        (source !== 'tour' || tourPlayer.isPlaying)
+      ) {
+        renderFrame(clock.advance(1 / fps));
+        await recorder.addFrame(canvas, frames);
+        frames++;
+        setRecording({ frames, fps });
+        // Let the page update and handle the stop button between frames
+        await new Promise((resolve) => setTimeout(resolve, 0));
       }
-      if (tourAnimationRef.current) {
-        cancelAnimationFrame(tourAnimationRef.current);
+
+      // Unmounted while recording: nothing to save
+      if (!rendererRef.current) {
+        recorder.cancel();
+        return;
       }
-      if (autoTourTimeoutRef.current) {
-        window.clearTimeout(autoTourTimeoutRef.current);
+      const blob = await recorder.finish();
+      downloadBlob(
+        blob,
+        `${sceneId}-${source}.${recorder.format === 'webm' ? 'webm' : 'zip'}`
+      );
+    } catch (error) {
+      console.error('Error recording:', error);
+      recorder.cancel();
+      setRecordingError(
+        error instanceof Error ? error.message : 'Recording failed'
+      );
+    } finally {
+      recordingRef.current = null;
+      setRecording(null);
+      if (source === 'tour') {
+        stopTour();
       }
-      isAutoTourRef.current = false;
-      if (rendererRef.current) {
-        rendererRef.current.dispose();
+      if (rendererRef.current && !document.hidden) {
+        lastTimeRef.current = performance.now();
+        animate();
       }
-    };
-  }, [sceneInstance]);
+    }
+  };
+
+  const stopRecording = () => {
+    if (recordingRef.current) {
+      recordingRef.current.stopRequested = true;
+    }
+  };
+
+  const playTour = (
+    tourPoints: TourPoint[],
+    autoAdvance: boolean,
+    startIndex = 0
+  ) => {
+    if (!sceneInstance || !cameraRef.current || tourPoints.length === 0) return;
+
+    setShowTour(true);
+    setActiveTourPoints(tourPoints);
+    tourPlayer.start(tourPoints, startIndex, getCameraPose(), {
+      autoAdvance,
+      loop: loopTour,
+      config: { ...sceneInstance.tour, mode: tourMode },
+    });
+    if (tourPlayer.isPlaying) {
+      callbacksRef.current.onTourStart?.();
+    }
+  };
+
+  const startTour = () => {
+    playTour(sceneTourPoints, true);
+  };
+
+  const stopTour = () => {
+    setShowTour(false);
+    setCurrentTourPoint(0);
+    tourPlayer.stop();
+  };
+
+  const goToTourPoint = (index: number) => {
+    // Manual navigation stops the auto tour. Once the player has stopped,
+    // start over on the scene's own points rather than a previewed list.
+    if (tourPlayer.isPlaying) {
+      tourPlayer.goTo(index, getCameraPose(), false);
+    } else if (sceneTourPoints.length > 0) {
+      setActiveTourPoints(sceneTourPoints);
+      tourPlayer.start(sceneTourPoints, index, getCameraPose(), {
+        autoAdvance: false,
+      });
+    }
+  };
+
+  const goToNextTourPoint = () => {
+    goToTourPoint(currentTourPoint + 1);
+  };
+
+  const goToPreviousTourPoint = () => {
+    goToTourPoint(currentTourPoint - 1);
+  };
 
   return (
     <div style={{ position: 'relative', width: '100%', height: '100vh' }}>
       <canvas ref={canvasRef} style={{ display: 'block' }} />
 
+      {/* Hotspot Markers */}
+      {!loading && !error && !hideOverlays && (
+        <HotspotLayer
+          hotspots={hotspots}
+          camera={cameraRef}
+          selectedId={selectedHotspotId}
+          onSelect={onHotspotSelect}
+          onClose={() => setSelectedHotspotId(null)}
+        />
+      )}
+
       {/* Loading Overlay */}
       {loading && (
         <div
@@ -541,11 +1410,31 @@ export default function ScenePreview({
             display: 'flex',
             justifyContent: 'center',
             alignItems: 'center',
+            flexDirection: 'column',
+            gap: '12px',
             fontSize: '18px',
             zIndex: 1000,
           }}
         >
-          Loading scene...
+          <div>{LOAD_STAGE_LABELS[loadProgress.stage]}</div>
+          <div
+            style={{
+              width: '240px',
+              height: '8px',
+              backgroundColor: '#ddd',
+              borderRadius: '4px',
+              overflow: 'hidden',
+            }}
+          >
+            <div
+              style={{
+                width: `${Math.round(loadProgress.progress * 100)}%`,
+                height: '100%',
+                backgroundColor: '#007bff',
+                transition: 'width 0.2s ease-out',
+              }}
+            />
+          </div>
         </div>
       )}
 
@@ -570,17 +1459,89 @@ export default function ScenePreview({
           <div style={{ color: 'red', fontSize: '18px' }}>
             Error loading scene: {error}
           </div>
-          <button
-            onClick={handleBack}
-            style={{ padding: '10px 20px', fontSize: '16px' }}
-          >
-            Go Back
-          </button>
+          {!hideOverlays && (
+            <button
+              onClick={handleBack}
+              style={{ padding: '10px 20px', fontSize: '16px' }}
+            >
+              Go Back
+            </button>
+          )}
         </div>
       )}
 
+      {/* Performance Stats */}
+      {showStats && !loading && !error && !hideOverlays && (
+        <StatsOverlay
+          stats={renderStats}
+          budget={sceneInstance?.renderBudget}
+        />
+      )}
+
+      {/* Scene Clock Controls */}
+      {!loading && !error && !hideOverlays && <TransportBar clock={clock} />}
+
+      {/* Screenshot & Recording Options */}
+      {toolPanel === 'screenshot' && !hideOverlays && (
+        <ScreenshotPanel
+          onCapture={captureView}
+          onClose={() => setToolPanel(null)}
+        />
+      )}
+      {toolPanel === 'gltf' && !hideOverlays && sceneInstance && (
+        <GltfExportPanel
+          animated={typeof sceneInstance.animate === 'function'}
+          onExport={exportModel}
+          onClose={() => setToolPanel(null)}
+        />
+      )}
+      {toolPanel === 'recorder' && !hideOverlays && (
+        <RecorderPanel
+          hasTour={sceneTourPoints.length > 0}
+          recording={recording}
+          error={recordingError}
+          onStart={startRecording}
+          onStop={stopRecording}
+          onClose={() => setToolPanel(null)}
+        />
+      )}
+
+      {/* Tour Editor */}
+      {editingTour && sceneInstance && (
+        <TourEditorPanel
+          initialPoints={sceneTourPoints}
+          getCameraPose={getCameraPose}
+          onGoTo={(point) => {
+            // Fly there outside of tour mode. The player stops on arrival,
+            // so the view can be adjusted and captured again.
+            stopTour();
+            tourPlayer.start([point], 0, getCameraPose(), {
+              autoAdvance: false,
+            });
+          }}
+          onPreview={(points) => playTour(points, true)}
+          onClose={() => {
+            stopTour();
+            setEditingTour(false);
+          }}
+        />
+      )}
+
+      {/* Outliner */}
+      {showOutliner && !loading && sceneRef.current && (
+        <OutlinerPanel
+          scene={sceneRef.current}
+          selected={selectedObject}
+          onSelect={setSelectedObject}
+          gizmo={gizmo}
+          onGizmoChange={setGizmo}
+          onObjectEdit={recordInspectorEdit}
+          onClose={closeOutliner}
+        />
+      )}
+
       {/* Scene Info Panel */}
-      {!showTour && (
+      {!showTour && !editingTour && !showOutliner && !hideOverlays && (
         <div
           style={{
             position: 'absolute',
@@ -603,61 +1564,241 @@ export default function ScenePreview({
         </div>
       )}
 
-      {/* Controls Panel */}
-      {!showTour && (
+      {/* Controls & Parameters Panels */}
+      {!showTour && !hideOverlays && (
         <div
           style={{
             position: 'absolute',
             top: '20px',
             right: '20px',
-            backgroundColor: 'rgba(0, 0, 0, 0.8)',
-            color: 'white',
-            padding: '15px',
-            borderRadius: '8px',
-            fontSize: '14px',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'flex-end',
+            gap: '10px',
+            maxHeight: 'calc(100vh - 140px)',
+            overflowY: 'auto',
           }}
         >
-          <div style={{ marginBottom: '10px', fontWeight: 'bold' }}>
-            Controls:
-          </div>
-          <div style={{ fontSize: '12px', lineHeight: '1.4' }}>
-            • Left click + drag: Orbit camera
-            <br />
-            • Middle click + drag or Shift + drag: Pan focus
-            <br />
-            • WASD keys: Move focus point
-            <br />• Mouse wheel: Zoom in/out
+          <div
+            style={{
+              backgroundColor: 'rgba(0, 0, 0, 0.8)',
+              color: 'white',
+              padding: '15px',
+              borderRadius: '8px',
+              fontSize: '14px',
+            }}
+          >
+            <div style={{ marginBottom: '10px', fontWeight: 'bold' }}>
+              Controls:
+            </div>
+            <div style={{ fontSize: '12px', lineHeight: '1.4' }}>
+              • Left click + drag: Orbit camera
+              <br />
+              • Middle click + drag or Shift + drag: Pan focus
+              <br />
+              • WASD keys: Move focus point
+              <br />
+              • Mouse wheel: Zoom in/out
+              <br />• Click: Interact with highlighted objects
+            </div>
           </div>
+
+          {sceneInstance?.parameters && (
+            <ParameterPanel
+              parameters={sceneInstance.parameters}
+              values={parameterValues}
+              onChange={onParameterChange}
+              onReset={resetParameters}
+            />
+          )}
+
+          {sceneInstance && (
+            <DebugPanel options={debugOptions} onChange={setDebugOptions} />
+          )}
+
+          {sceneInstance && !loading && sceneRef.current && (
+            <HistoryPanel
+              history={history}
+              root={sceneRef.current}
+              onUndo={() => jumpInHistory(history.cursor - 1)}
+              onRedo={() => jumpInHistory(history.cursor + 1)}
+              onJump={jumpInHistory}
+              onClear={() => setHistory(EMPTY_HISTORY)}
+            />
+          )}
         </div>
       )}
 
       {/* Action Buttons */}
-      <div
-        style={{
-          position: 'absolute',
-          bottom: '50px',
-          left: '20px',
-          display: 'flex',
-          gap: '10px',
-        }}
-      >
-        <button
-          onClick={handleBack}
+      {!hideOverlays && (
+        <div
           style={{
-            padding: '10px 20px',
-            backgroundColor: '#666',
-            color: 'white',
-            border: 'none',
-            borderRadius: '5px',
-            cursor: 'pointer',
-            fontSize: '14px',
+            position: 'absolute',
+            bottom: '50px',
+            left: '20px',
+            display: 'flex',
+            flexWrap: 'wrap',
+            gap: '10px',
           }}
         >
-          ← Back
-        </button>
+          <button
+            onClick={handleBack}
+            style={{
+              padding: '10px 20px',
+              backgroundColor: '#666',
+              color: 'white',
+              border: 'none',
+              borderRadius: '5px',
+              cursor: 'pointer',
+              fontSize: '14px',
+            }}
+          >
+            ← Back
+          </button>
+
+          {sceneInstance && syncViewToUrl && (
+            <button
+              onClick={copyViewLink}
+              title="Copy a link to this exact view"
+              style={{
+                padding: '10px 20px',
+                backgroundColor: linkCopied ? '#28a745' : '#17a2b8',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: 'pointer',
+                fontSize: '14px',
+              }}
+            >
+              {linkCopied ? '✓ Link Copied' : '🔗 Copy Link'}
+            </button>
+          )}
 
-        {sceneInstance?.getTourPoints &&
-          sceneInstance.getTourPoints().length > 0 && (
+          {sceneInstance && (
+            <button
+              onClick={() => setShowStats((prev) => !prev)}
+              title="Frame time, draw calls and memory"
+              style={{
+                padding: '10px 20px',
+                backgroundColor: showStats ? '#495057' : '#6c757d',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: 'pointer',
+                fontSize: '14px',
+              }}
+            >
+              📊 Stats
+            </button>
+          )}
+
+          {sceneInstance && (
+            <button
+              onClick={() =>
+                setToolPanel((prev) =>
+                  prev === 'screenshot' ? null : 'screenshot'
+                )
+              }
+              disabled={recording !== null}
+              title="Save the current view as a PNG"
+              style={{
+                padding: '10px 20px',
+                backgroundColor:
+                  toolPanel === 'screenshot' ? '#0056b3' : '#007bff',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: 'pointer',
+                fontSize: '14px',
+              }}
+            >
+              📷 Screenshot
+            </button>
+          )}
+
+          {sceneInstance && (
+            <button
+              onClick={() =>
+                setToolPanel((prev) =>
+                  prev === 'recorder' ? null : 'recorder'
+                )
+              }
+              disabled={recording !== null}
+              title="Record the tour or animation as a video"
+              style={{
+                padding: '10px 20px',
+                backgroundColor:
+                  toolPanel === 'recorder' ? '#a71d2a' : '#dc3545',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: 'pointer',
+                fontSize: '14px',
+              }}
+            >
+              🎥 Record
+            </button>
+          )}
+
+          {sceneInstance && (
+            <button
+              onClick={() =>
+                setToolPanel((prev) => (prev === 'gltf' ? null : 'gltf'))
+              }
+              disabled={recording !== null}
+              title="Download the scene as a glTF/GLB model"
+              style={{
+                padding: '10px 20px',
+                backgroundColor: toolPanel === 'gltf' ? '#117a8b' : '#17a2b8',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: 'pointer',
+                fontSize: '14px',
+              }}
+            >
+              🧊 Export 3D
+            </button>
+          )}
+
+          {!showTour && !editingTour && !showOutliner && sceneInstance && (
+            <button
+              onClick={() => setEditingTour(true)}
+              style={{
+                padding: '10px 20px',
+                backgroundColor: '#6f42c1',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: 'pointer',
+                fontSize: '14px',
+              }}
+            >
+              ✏️ Edit Tour
+            </button>
+          )}
+
+          {!editingTour && sceneInstance && (
+            <button
+              onClick={() =>
+                showOutliner ? closeOutliner() : setShowOutliner(true)
+              }
+              title="Browse and edit the objects of the scene"
+              style={{
+                padding: '10px 20px',
+                backgroundColor: showOutliner ? '#1e7e34' : '#20c997',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: 'pointer',
+                fontSize: '14px',
+              }}
+            >
+              🌳 Outliner
+            </button>
+          )}
+
+          {(sceneTourPoints.length > 0 || showTour) && (
             <>
               <button
                 onClick={showTour ? stopTour : startTour}
@@ -674,6 +1815,27 @@ export default function ScenePreview({
                 {showTour ? 'Stop Tour' : 'Start Auto Tour'}
               </button>
 
+              {!showTour && sceneTourPoints.length > 1 && (
+                <button
+                  onClick={() =>
+                    setTourMode((mode) => (mode === 'path' ? 'points' : 'path'))
+                  }
+                  title="Glide along a smooth curve through all tour points"
+                  style={{
+                    padding: '10px 15px',
+                    backgroundColor:
+                      tourMode === 'path' ? '#17a2b8' : '#6c757d',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '5px',
+                    cursor: 'pointer',
+                    fontSize: '14px',
+                  }}
+                >
+                  Path mode: {tourMode === 'path' ? 'On' : 'Off'}
+                </button>
+              )}
+
               {showTour && (
                 <>
                   <button
@@ -708,10 +1870,11 @@ export default function ScenePreview({
               )}
             </>
           )}
-      </div>
+        </div>
+      )}
 
       {/* Tour Status */}
-      {showTour && sceneInstance?.getTourPoints && (
+      {showTour && activeTourPoints.length > 0 && !hideOverlays && (
         <div
           style={{
             position: 'absolute',
@@ -726,14 +1889,13 @@ export default function ScenePreview({
           }}
         >
           <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>
-            Tour Point: {currentTourPoint + 1} /{' '}
-            {sceneInstance.getTourPoints().length}
+            Tour Point: {currentTourPoint + 1} / {activeTourPoints.length}
           </div>
           <div style={{ marginBottom: '5px' }}>
-            {sceneInstance.getTourPoints()[currentTourPoint]?.name}
+            {activeTourPoints[currentTourPoint]?.name}
           </div>
           <div style={{ fontSize: '12px', opacity: 0.8 }}>
-            {sceneInstance.getTourPoints()[currentTourPoint]?.description}
+            {activeTourPoints[currentTourPoint]?.description}
           </div>
         </div>
       )}
@@ -1,33 +1,10 @@
 import { useNavigate } from 'react-router-dom';
-import { useEffect, useState } from 'react';
-import { getSceneMetadata } from '../scenes/registry';
+import { getSceneMetadata, getSceneRegistryErrors } from '../scenes/registry';
 
 export default function SceneSelector() {
   const navigate = useNavigate();
-  const [sceneMetadata, setSceneMetadata] = useState<
-    Array<{
-      sceneId: string;
-      sceneName: string;
-      description: string;
-      hasTourPoints: boolean;
-    }>
-  >([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    const loadSceneMetadata = async () => {
-      try {
-        const metadata = await getSceneMetadata();
-        setSceneMetadata(metadata);
-      } catch (error) {
-        console.error('Error loading scene metadata:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadSceneMetadata();
-  }, []);
+  const sceneMetadata = getSceneMetadata();
+  const registryErrors = getSceneRegistryErrors();
 
   return (
     <div
@@ -74,6 +51,39 @@ export default function SceneSelector() {
             Build individual 3D scenes using Three.js primitives. Create your
             unique 3D world with complete creative freedom.
           </p>
+          {sceneMetadata.length > 0 && (
+            <button
+              onClick={() => navigate('/tour')}
+              style={{
+                padding: '12px 24px',
+                backgroundColor: '#28a745',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '16px',
+                fontWeight: 'bold',
+              }}
+            >
+              ▶ Play Grand Tour
+            </button>
+          )}
+          <button
+            onClick={() => navigate('/builder')}
+            style={{
+              marginLeft: sceneMetadata.length > 0 ? '10px' : 0,
+              padding: '12px 24px',
+              backgroundColor: '#6f42c1',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '16px',
+              fontWeight: 'bold',
+            }}
+          >
+            🧱 Scene Builder
+          </button>
         </div>
 
         {/* Scenes Grid */}
@@ -88,20 +98,31 @@ export default function SceneSelector() {
             Scenes
           </h2>
 
-          {loading ? (
+          {registryErrors.length > 0 && (
             <div
               style={{
-                backgroundColor: 'white',
+                backgroundColor: '#fff3f3',
+                border: '2px solid #f5c2c7',
                 borderRadius: '12px',
-                padding: '40px',
-                textAlign: 'center',
-                color: '#666',
+                padding: '20px',
+                marginBottom: '20px',
+                color: '#842029',
               }}
             >
-              <div style={{ fontSize: '48px', marginBottom: '15px' }}>🔄</div>
-              <h3 style={{ margin: '0 0 10px 0' }}>Loading scenes...</h3>
+              <h3 style={{ margin: '0 0 10px 0' }}>
+                Some scenes could not be registered
+              </h3>
+              <ul style={{ margin: 0, paddingLeft: '20px', lineHeight: '1.5' }}>
+                {registryErrors.map((message) => (
+                  <li key={message} style={{ fontFamily: 'monospace' }}>
+                    {message}
+                  </li>
+                ))}
+              </ul>
             </div>
-          ) : sceneMetadata.length === 0 ? (
+          )}
+
+          {sceneMetadata.length === 0 ? (
             <div
               style={{
                 backgroundColor: 'white',
@@ -114,7 +135,7 @@ export default function SceneSelector() {
               <div style={{ fontSize: '48px', marginBottom: '15px' }}>🏗️</div>
               <h3 style={{ margin: '0 0 10px 0' }}>No scenes found</h3>
               <p style={{ margin: '0' }}>
-                Add your scenes to the registry to see them here.
+                Add a scene folder under src/scenes/ to see it here.
               </p>
             </div>
           ) : (
@@ -139,6 +160,20 @@ export default function SceneSelector() {
                       border: '2px solid #e9ecef',
                     }}
                   >
+                    {scene.thumbnail && (
+                      <img
+                        src={`${import.meta.env.BASE_URL}${scene.thumbnail}`}
+                        alt={scene.sceneName}
+                        style={{
+                          width: '100%',
+                          height: '180px',
+                          objectFit: 'cover',
+                          borderRadius: '8px',
+                          marginBottom: '15px',
+                        }}
+                      />
+                    )}
+
                     <div
                       style={{
                         marginBottom: '15px',
@@ -165,6 +200,46 @@ export default function SceneSelector() {
                       {scene.description}
                     </p>
 
+                    {scene.authors.length > 0 && (
+                      <p
+                        style={{
+                          margin: '0 0 10px 0',
+                          color: '#888',
+                          fontSize: '13px',
+                        }}
+                      >
+                        By {scene.authors.join(', ')}
+                      </p>
+                    )}
+
+                    <div
+                      style={{
+                        display: 'flex',
+                        flexWrap: 'wrap',
+                        gap: '6px',
+                        marginBottom: '15px',
+                      }}
+                    >
+                      {scene.hasTourPoints && (
+                        <span style={badgeStyle('#d1e7dd', '#0f5132')}>
+                          🎬 Tour
+                        </span>
+                      )}
+                      {scene.animated && (
+                        <span style={badgeStyle('#cfe2ff', '#084298')}>
+                          ✨ Animated
+                        </span>
+                      )}
+                      {scene.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          style={badgeStyle('#e9ecef', '#495057')}
+                        >
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+
                     <button
                       onClick={() => navigate(`/scene/${scene.sceneId}`)}
                       style={{
@@ -234,3 +309,13 @@ export default function SceneSelector() {
     </div>
   );
 }
+
+function badgeStyle(backgroundColor: string, color: string) {
+  return {
+    backgroundColor,
+    color,
+    padding: '2px 8px',
+    borderRadius: '10px',
+    fontSize: '12px',
+  };
+}
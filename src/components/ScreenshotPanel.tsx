@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import {
+  SCREENSHOT_PRESETS,
+  type ScreenshotOptions,
+} from '../utils/screenshot';
+
+interface ScreenshotPanelProps {
+  onCapture: (options: ScreenshotOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const CUSTOM = 'custom';
+
+const inputStyle = {
+  width: '70px',
+  fontSize: '12px',
+  padding: '3px',
+};
+
+/**
+ * Small panel to pick the size and background of a screenshot
+ */
+export default function ScreenshotPanel({
+  onCapture,
+  onClose,
+}: ScreenshotPanelProps) {
+  const [preset, setPreset] = useState(SCREENSHOT_PRESETS[0].label);
+  const [width, setWidth] = useState(window.innerWidth);
+  const [height, setHeight] = useState(window.innerHeight);
+  const [transparent, setTransparent] = useState(false);
+  const [capturing, setCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = SCREENSHOT_PRESETS.find((option) => option.label === preset);
+  const size = selected ?? { width, height };
+
+  const capture = async () => {
+    setCapturing(true);
+    setError(null);
+    try {
+      await onCapture({ ...size, transparent });
+    } catch (error) {
+      console.error('Error capturing screenshot:', error);
+      setError(error instanceof Error ? error.message : 'Capture failed');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '110px',
+        left: '20px',
+        width: '260px',
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '10px',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+        <strong>Screenshot</strong>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: 'white',
+            cursor: 'pointer',
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <select
+        value={preset}
+        onChange={(event) => setPreset(event.target.value)}
+      >
+        {SCREENSHOT_PRESETS.map((option) => (
+          <option key={option.label} value={option.label}>
+            {option.label}
+          </option>
+        ))}
+        <option value={CUSTOM}>Custom size</option>
+      </select>
+
+      {!selected && (
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+          <input
+            type="number"
+            min={1}
+            value={width}
+            onChange={(event) =>
+              setWidth(Math.max(1, Math.round(Number(event.target.value))))
+            }
+            style={inputStyle}
+          />
+          ×
+          <input
+            type="number"
+            min={1}
+            value={height}
+            onChange={(event) =>
+              setHeight(Math.max(1, Math.round(Number(event.target.value))))
+            }
+            style={inputStyle}
+          />
+          px
+        </div>
+      )}
+
+      <label style={{ fontSize: '12px' }}>
+        <input
+          type="checkbox"
+          checked={transparent}
+          onChange={(event) => setTransparent(event.target.checked)}
+        />{' '}
+        Transparent background
+      </label>
+
+      <button
+        onClick={capture}
+        disabled={capturing}
+        style={{
+          padding: '8px',
+          backgroundColor: '#007bff',
+          color: 'white',
+          border: 'none',
+          borderRadius: '5px',
+          cursor: capturing ? 'wait' : 'pointer',
+          fontSize: '14px',
+        }}
+      >
+        {capturing ? 'Capturing...' : '📷 Download PNG'}
+      </button>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '12px' }}>{error}</div>
+      )}
+    </div>
+  );
+}
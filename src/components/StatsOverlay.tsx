@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RenderBudget } from '../types/scene';
+import {
+  DEFAULT_RENDER_BUDGET,
+  STATS_HISTORY_LENGTH,
+  checkRenderBudget,
+  type RenderStats,
+  type RenderStatsSnapshot,
+} from '../utils/renderStats';
+
+interface StatsOverlayProps {
+  stats: RenderStats;
+  budget?: RenderBudget;
+}
+
+const GRAPH_WIDTH = STATS_HISTORY_LENGTH * 2;
+const GRAPH_HEIGHT = 40;
+
+// Frame time at the top of the graph, in milliseconds
+const GRAPH_MAX_FRAME_TIME = 50;
+
+// How often the numbers and graph refresh
+const REFRESH_INTERVAL_MS = 250;
+
+/**
+ * Live frame time, FPS graph and renderer counters, with warnings when the
+ * scene goes over its render budget
+ */
+export default function StatsOverlay({ stats, budget }: StatsOverlayProps) {
+  const graphRef = useRef<HTMLCanvasElement>(null);
+  const [snapshot, setSnapshot] = useState<RenderStatsSnapshot>(() =>
+    stats.snapshot()
+  );
+
+  useEffect(() => {
+    const frameBudget = budget?.frameTime ?? DEFAULT_RENDER_BUDGET.frameTime;
+
+    const refresh = () => {
+      setSnapshot(stats.snapshot());
+
+      const context = graphRef.current?.getContext('2d');
+      if (!context) return;
+      context.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+
+      const toY = (frameTime: number) =>
+        GRAPH_HEIGHT -
+        (Math.min(frameTime, GRAPH_MAX_FRAME_TIME) / GRAPH_MAX_FRAME_TIME) *
+          GRAPH_HEIGHT;
+
+      stats.history().forEach((frameTime, index) => {
+        context.fillStyle = frameTime > frameBudget ? '#ff6b6b' : '#4cd964';
+        const y = toY(frameTime);
+        context.fillRect(index * 2, y, 2, GRAPH_HEIGHT - y);
+      });
+
+      // Budget line
+      context.fillStyle = 'rgba(255, 255, 255, 0.5)';
+      context.fillRect(0, toY(frameBudget), GRAPH_WIDTH, 1);
+    };
+
+    refresh();
+    const intervalId = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [stats, budget]);
+
+  const warnings = checkRenderBudget(snapshot, budget);
+
+  const rows: [string, string][] = [
+    ['Draw calls', String(snapshot.drawCalls)],
+    ['Triangles', snapshot.triangles.toLocaleString()],
+    ['Points / lines', `${snapshot.points} / ${snapshot.lines}`],
+    ['Geometries', String(snapshot.geometries)],
+    ['Textures', String(snapshot.textures)],
+    ['Programs', String(snapshot.programs)],
+  ];
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: `${GRAPH_WIDTH}px`,
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        color: 'white',
+        padding: '10px',
+        borderRadius: '8px',
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        pointerEvents: 'none',
+      }}
+    >
+      <div style={{ fontSize: '14px', marginBottom: '6px' }}>
+        {snapshot.fps.toFixed(0)} FPS · {snapshot.frameTime.toFixed(1)} ms
+      </div>
+      <canvas
+        ref={graphRef}
+        width={GRAPH_WIDTH}
+        height={GRAPH_HEIGHT}
+        style={{ display: 'block', marginBottom: '6px' }}
+      />
+      {rows.map(([label, value]) => (
+        <div
+          key={label}
+          style={{ display: 'flex', justifyContent: 'space-between' }}
+        >
+          <span style={{ opacity: 0.7 }}>{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+      {warnings.length > 0 && (
+        <div style={{ marginTop: '6px', color: '#ffc107' }}>
+          {warnings.map((warning) => (
+            <div key={warning}>⚠ {warning}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useEffect, useState } from 'react';
+import type { TourPoint } from '../types/scene';
+import { tourPointsToJson, tourPointsToTypeScript } from '../utils/tourExport';
+import type { CameraPose } from '../utils/tourPlayer';
+
+interface TourEditorPanelProps {
+  /**
+   * Tour points to start from (usually the scene's own)
+   */
+  initialPoints: TourPoint[];
+
+  /**
+   * Returns the current camera position and look-at target
+   */
+  getCameraPose: () => CameraPose;
+
+  onGoTo: (point: TourPoint) => void;
+  onPreview: (points: TourPoint[]) => void;
+  onClose: () => void;
+}
+
+const CAPTURE_KEY = 'KeyC';
+
+const buttonStyle = (backgroundColor: string) => ({
+  padding: '4px 8px',
+  backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+});
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  padding: '3px',
+};
+
+/**
+ * Side panel to author tour points by navigating the camera and capturing
+ * poses, then exporting them as code
+ */
+export default function TourEditorPanel({
+  initialPoints,
+  getCameraPose,
+  onGoTo,
+  onPreview,
+  onClose,
+}: TourEditorPanelProps) {
+  const [points, setPoints] = useState<TourPoint[]>(() =>
+    initialPoints.map((point) => ({
+      ...point,
+      cameraPosition: point.cameraPosition.clone(),
+      lookAtTarget: point.lookAtTarget.clone(),
+    }))
+  );
+  const [exportFormat, setExportFormat] = useState<'ts' | 'json' | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const capture = () => {
+    const pose = getCameraPose();
+    setPoints((prev) => [
+      ...prev,
+      {
+        name: `Point ${prev.length + 1}`,
+        description: '',
+        cameraPosition: pose.position.clone(),
+        lookAtTarget: pose.target.clone(),
+        duration: 2,
+      },
+    ]);
+  };
+
+  // Capture with the keyboard, unless typing in one of the fields
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.closest('input, textarea, select')) return;
+      if (event.code === CAPTURE_KEY && !event.repeat) {
+        capture();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const updatePoint = (index: number, changes: Partial<TourPoint>) => {
+    setPoints((prev) =>
+      prev.map((point, i) => (i === index ? { ...point, ...changes } : point))
+    );
+  };
+
+  const recapture = (index: number) => {
+    const pose = getCameraPose();
+    updatePoint(index, {
+      cameraPosition: pose.position.clone(),
+      lookAtTarget: pose.target.clone(),
+    });
+  };
+
+  const movePoint = (index: number, offset: number) => {
+    setPoints((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removePoint = (index: number) => {
+    setPoints((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const exportText =
+    exportFormat === 'ts'
+      ? tourPointsToTypeScript(points)
+      : exportFormat === 'json'
+        ? tourPointsToJson(points)
+        : '';
+
+  const showExport = async (format: 'ts' | 'json') => {
+    setExportFormat(format);
+    setCopied(false);
+    const text =
+      format === 'ts'
+        ? tourPointsToTypeScript(points)
+        : tourPointsToJson(points);
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (error) {
+      // Clipboard access can be denied, the text area is still there
+      console.warn('Could not copy tour to clipboard:', error);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '20px',
+        left: '20px',
+        bottom: '110px',
+        width: '320px',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        color: 'white',
+        padding: '15px',
+        borderRadius: '8px',
+        fontSize: '14px',
+        boxSizing: 'border-box',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          marginBottom: '10px',
+        }}
+      >
+        <strong>Tour Editor</strong>
+        <button onClick={onClose} style={buttonStyle('#666')}>
+          Close
+        </button>
+      </div>
+
+      <div style={{ fontSize: '12px', opacity: 0.8, marginBottom: '10px' }}>
+        Navigate with the usual controls, then press <strong>C</strong> to
+        capture the current view as a new tour point. 👁 flies to a point and 📷
+        replaces it with the current view.
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '10px' }}>
+        <button onClick={capture} style={buttonStyle('#28a745')}>
+          + Capture view
+        </button>
+        <button
+          onClick={() => onPreview(points)}
+          disabled={points.length === 0}
+          style={buttonStyle('#007bff')}
+        >
+          ▶ Preview
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', marginBottom: '10px' }}>
+        {points.length === 0 && (
+          <div style={{ fontSize: '12px', opacity: 0.6 }}>
+            No tour points yet.
+          </div>
+        )}
+        {points.map((point, index) => (
+          <div
+            key={index}
+            style={{
+              borderTop: '1px solid rgba(255, 255, 255, 0.2)',
+              padding: '8px 0',
+            }}
+          >
+            <div style={{ display: 'flex', gap: '4px', marginBottom: '4px' }}>
+              <input
+                value={point.name}
+                onChange={(event) =>
+                  updatePoint(index, { name: event.target.value })
+                }
+                style={inputStyle}
+              />
+              <button
+                onClick={() => onGoTo(point)}
+                title="Fly to this point"
+                style={buttonStyle('#17a2b8')}
+              >
+                👁
+              </button>
+              <button
+                onClick={() => recapture(index)}
+                title="Replace with the current view"
+                style={buttonStyle('#28a745')}
+              >
+                📷
+              </button>
+              <button
+                onClick={() => movePoint(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+                style={buttonStyle('#6c757d')}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => movePoint(index, 1)}
+                disabled={index === points.length - 1}
+                title="Move down"
+                style={buttonStyle('#6c757d')}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => removePoint(index)}
+                title="Remove"
+                style={buttonStyle('#dc3545')}
+              >
+                ✕
+              </button>
+            </div>
+            <textarea
+              value={point.description}
+              placeholder="Description"
+              rows={2}
+              onChange={(event) =>
+                updatePoint(index, { description: event.target.value })
+              }
+              style={{ ...inputStyle, resize: 'vertical' }}
+            />
+            <div style={{ display: 'flex', gap: '6px', fontSize: '12px' }}>
+              <label style={{ flex: 1 }}>
+                Pause (s)
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={point.duration}
+                  onChange={(event) =>
+                    updatePoint(index, {
+                      duration: Math.max(0, Number(event.target.value)),
+                    })
+                  }
+                  style={inputStyle}
+                />
+              </label>
+              <label style={{ flex: 1 }}>
+                Flight (s)
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={point.transitionDuration ?? ''}
+                  placeholder="2"
+                  onChange={(event) =>
+                    updatePoint(index, {
+                      transitionDuration:
+                        event.target.value === ''
+                          ? undefined
+                          : Math.max(0, Number(event.target.value)),
+                    })
+                  }
+                  style={inputStyle}
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '6px' }}>
+        <button onClick={() => showExport('ts')} style={buttonStyle('#6f42c1')}>
+          Copy TypeScript
+        </button>
+        <button
+          onClick={() => showExport('json')}
+          style={buttonStyle('#6f42c1')}
+        >
+          Copy JSON
+        </button>
+        {copied && (
+          <span style={{ fontSize: '12px', alignSelf: 'center' }}>Copied!</span>
+        )}
+      </div>
+      {exportFormat && (
+        <textarea
+          readOnly
+          value={exportText}
+          rows={8}
+          onFocus={(event) => event.target.select()}
+          style={{ ...inputStyle, fontFamily: 'monospace' }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { CLOCK_SPEEDS, type SceneClock } from '../utils/sceneClock';
+
+interface TransportBarProps {
+  clock: SceneClock;
+}
+
+const buttonStyle = {
+  padding: '4px 10px',
+  backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '14px',
+};
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+};
+
+/**
+ * Play/pause, frame step and speed controls for the scene clock
+ */
+export default function TransportBar({ clock }: TransportBarProps) {
+  const [paused, setPaused] = useState(clock.isPaused);
+  const [speed, setSpeed] = useState(clock.speed);
+  const [elapsed, setElapsed] = useState(clock.elapsedTime);
+
+  // The clock advances outside React, poll it for the time display
+  useEffect(() => {
+    const intervalId = setInterval(() => setElapsed(clock.elapsedTime), 100);
+    return () => clearInterval(intervalId);
+  }, [clock]);
+
+  const togglePaused = () => {
+    if (clock.isPaused) {
+      clock.play();
+    } else {
+      clock.pause();
+    }
+    setPaused(clock.isPaused);
+  };
+
+  const changeSpeed = (value: number) => {
+    clock.speed = value;
+    setSpeed(value);
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '10px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        color: 'white',
+        padding: '6px 10px',
+        borderRadius: '8px',
+        fontSize: '13px',
+      }}
+    >
+      <button
+        onClick={togglePaused}
+        title={paused ? 'Play' : 'Pause'}
+        style={buttonStyle}
+      >
+        {paused ? '▶' : '❚❚'}
+      </button>
+      <button
+        onClick={() => clock.step()}
+        disabled={!paused}
+        title="Step one frame"
+        style={{ ...buttonStyle, opacity: paused ? 1 : 0.4 }}
+      >
+        ⏭
+      </button>
+      <select
+        value={speed}
+        onChange={(event) => changeSpeed(Number(event.target.value))}
+        title="Playback speed"
+      >
+        {CLOCK_SPEEDS.map((value) => (
+          <option key={value} value={value}>
+            {value}×
+          </option>
+        ))}
+      </select>
+      <span style={{ fontFamily: 'monospace', minWidth: '70px' }}>
+        {formatTime(elapsed)}
+      </span>
+    </div>
+  );
+}
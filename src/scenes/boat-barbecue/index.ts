@@ -20,7 +20,7 @@ import {
  */
 export class BoatBarbecueScene implements SceneInterface {
   // TODO: Update these properties for your scene
-  readonly sceneId = 'boat-barbecue-scene';
+  readonly sceneId = 'boat-barbecue';
   readonly sceneName = 'Boat Barbecue'; // Your scene's display name
   readonly description =
     'A fun scene featuring a boat barbecue party by Yannis and Nico';
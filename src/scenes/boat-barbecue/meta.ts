@@ -0,0 +1,10 @@
+import type { SceneManifest } from '../../types/scene';
+
+export const sceneMeta: SceneManifest = {
+  sceneName: 'Boat Barbecue',
+  description: 'A fun scene featuring a boat barbecue party by Yannis and Nico',
+  authors: ['Yannis', 'Nico'],
+  tags: ['boat', 'barbecue', 'water'],
+  hasTourPoints: true,
+  animated: false,
+};
@@ -1,5 +1,10 @@
 import * as THREE from 'three';
-import type { SceneInterface, TourPoint } from '../../types/scene';
+import type {
+  SceneInteractionEvent,
+  SceneInterface,
+  SceneViewConfig,
+  TourPoint,
+} from '../../types/scene';
 import {
   createBox,
   createSphere,
@@ -8,6 +13,7 @@ import {
   createGroundPlane,
   createTransparentBox,
 } from '../../utils/primitives';
+import { markInteractive } from '../../utils/interaction';
 
 export class CaptainMorganScene implements SceneInterface {
   readonly sceneId = 'captain-morgan-two';
@@ -15,6 +21,18 @@ export class CaptainMorganScene implements SceneInterface {
   readonly description =
     'Amazing boat with amazing barbeque with amazing team - By Ishan Gupta and Luiz Nunes';
 
+  // The sea is 80 units wide, frame all of it
+  readonly view: SceneViewConfig = {
+    background: COLORS.SKY_BLUE,
+    bounds: new THREE.Box3(
+      new THREE.Vector3(-40, 0, -40),
+      new THREE.Vector3(40, 15, 40)
+    ),
+  };
+
+  private propeller?: THREE.Object3D;
+  private motorRunning = false;
+
   async buildScene(scene: THREE.Scene): Promise<void> {
     createBasicLighting(scene);
 
@@ -454,9 +472,23 @@ export class CaptainMorganScene implements SceneInterface {
     });
     scene.add(cabinRoof);
 
-    const motor = motorOfTheBoat();
+    // Click the motor to start or stop the propeller
+    const motor = markInteractive(motorOfTheBoat());
     motor.position.set(16, 2, 0);
     scene.add(motor);
+    this.propeller = motor.getObjectByName('propeller');
+  }
+
+  onClick(event: SceneInteractionEvent): void {
+    if (event.object.name === 'motor') {
+      this.motorRunning = !this.motorRunning;
+    }
+  }
+
+  animate(deltaTime: number): void {
+    if (this.propeller && this.motorRunning) {
+      this.propeller.rotation.y += deltaTime * 15;
+    }
   }
 
   getTourPoints(): TourPoint[] {
@@ -634,6 +666,7 @@ const createBasicLighting = (scene: THREE.Scene): void => {
 
 const motorOfTheBoat = () => {
   const motorGroup = new THREE.Group();
+  motorGroup.name = 'motor';
 
   const casing = createBox({
     width: 2,
@@ -654,6 +687,7 @@ const motorOfTheBoat = () => {
   motorGroup.add(shaft);
 
   const propellerGroup = new THREE.Group();
+  propellerGroup.name = 'propeller';
   propellerGroup.position.set(0, -4, 0);
   motorGroup.add(propellerGroup);
 
@@ -0,0 +1,11 @@
+import type { SceneManifest } from '../../types/scene';
+
+export const sceneMeta: SceneManifest = {
+  sceneName: 'Captain Morgan Two',
+  description:
+    'Amazing boat with amazing barbeque with amazing team - By Ishan Gupta and Luiz Nunes',
+  authors: ['Ishan Gupta', 'Luiz Nunes'],
+  tags: ['boat', 'barbecue'],
+  hasTourPoints: true,
+  animated: true,
+};
@@ -0,0 +1,11 @@
+import type { SceneManifest } from '../../types/scene';
+
+export const sceneMeta: SceneManifest = {
+  sceneName: 'Coffee shop',
+  description:
+    'A nice cosy coffee shop with a few plants - By Felix G. and Chloé',
+  authors: ['Felix G.', 'Chloé'],
+  tags: ['interior', 'coffee', 'plants'],
+  hasTourPoints: true,
+  animated: false,
+};
@@ -1,94 +1,254 @@
-import type { SceneInterface } from '../types/scene';
-
-// Static imports for all scene modules
-import { BoatBarbecueScene } from './boat-barbecue/index';
-import { CaptainMorganScene } from './captain-morgan-two/index';
-import { CoffeeShop } from './coffee-shop/index';
-
-// Scene registry with static references
-const SCENE_CLASSES = {
-  'boat-barbecue-scene': BoatBarbecueScene,
-  'captain-morgan-two': CaptainMorganScene,
-  'coffee-shop': CoffeeShop,
-} as const;
-
-export const SCENE_REGISTRY = Object.entries(SCENE_CLASSES).map(
-  ([sceneId, SceneClass]) => ({
-    sceneId,
-    SceneClass,
-    enabled: true,
-  })
-);
+import type {
+  SceneInterface,
+  SceneLoadProgress,
+  SceneManifest,
+  SceneMetadata,
+  SceneRegistryEntry,
+} from '../types/scene';
+import { createJsonSceneClass, getJsonSceneManifest } from '../utils/jsonScene';
+import { parseJsonScene } from '../utils/jsonSceneSchema';
 
-export function getEnabledSceneIds(): string[] {
-  return SCENE_REGISTRY.filter((entry) => entry.enabled).map(
-    (entry) => entry.sceneId
-  );
+/**
+ * Scene folders that are discovered but never listed in the gallery.
+ * The template exists to be copied, not previewed.
+ */
+const DISABLED_SCENE_IDS = new Set(['template-scene', 'template-json-scene']);
+
+// Every `src/scenes/<scene-id>/index.ts` is picked up automatically. Modules
+// are loaded on demand so each scene ends up in its own chunk.
+const SCENE_MODULES = import.meta.glob<Record<string, unknown>>('./*/index.ts');
+
+// Manifests are tiny and read by the gallery, so they are bundled eagerly
+const SCENE_MANIFESTS = import.meta.glob<SceneManifest>('./*/meta.ts', {
+  eager: true,
+  import: 'sceneMeta',
+});
+
+// Scenes can also be described without code, in
+// `src/scenes/<scene-id>/scene.json`. The files are bundled as text so the
+// gallery can read their names and validation errors can point at lines.
+const JSON_SCENES = import.meta.glob<string>('./*/scene.json', {
+  eager: true,
+  query: '?raw',
+  import: 'default',
+});
+
+/**
+ * Problems found while discovering or loading scenes (missing exports, ID
+ * mismatches, duplicates). Scenes with problems cannot be opened.
+ */
+export const SCENE_REGISTRY_ERRORS: string[] = [];
+
+function reportRegistryError(message: string): Error {
+  if (!SCENE_REGISTRY_ERRORS.includes(message)) {
+    SCENE_REGISTRY_ERRORS.push(message);
+    console.error(`Scene registry: ${message}`);
+  }
+  return new Error(message);
 }
 
-export async function createSceneInstance(sceneId: string) {
-  const entry = SCENE_REGISTRY.find(
-    (entry) => entry.enabled && entry.sceneId === sceneId
+function getFolderName(modulePath: string): string {
+  return modulePath.split('/')[1];
+}
+
+function isSceneClass(value: unknown): value is new () => SceneInterface {
+  return (
+    typeof value === 'function' &&
+    typeof (value as { prototype?: SceneInterface }).prototype?.buildScene ===
+      'function'
   );
+}
 
-  if (!entry) {
-    throw new Error(`Scene not found for scene ID: ${sceneId}`);
+/**
+ * Checks that a constructed scene matches its folder and its manifest.
+ */
+function validateSceneInstance(
+  modulePath: string,
+  scene: SceneInterface,
+  manifest: SceneManifest
+): void {
+  const folderName = getFolderName(modulePath);
+  const className = scene.constructor.name;
+
+  const requiredProps = ['sceneId', 'sceneName', 'description', 'buildScene'];
+  for (const prop of requiredProps) {
+    if (!(prop in scene)) {
+      throw reportRegistryError(
+        `${modulePath}: ${className} is missing required property: ${prop}`
+      );
+    }
   }
 
-  const SceneClass = entry.SceneClass;
+  if (scene.sceneId !== folderName) {
+    const owner = SCENE_REGISTRY.some(
+      (entry) => entry.sceneId === scene.sceneId
+    )
+      ? ` (already used by folder "${scene.sceneId}")`
+      : '';
+    throw reportRegistryError(
+      `${modulePath}: ${className} has sceneId "${scene.sceneId}"${owner} but its folder is "${folderName}", they must match`
+    );
+  }
 
-  if (!SceneClass) {
-    throw new Error(`No valid scene class found for: ${sceneId}`);
+  const mismatches: string[] = [];
+  if (scene.sceneName !== manifest.sceneName) {
+    mismatches.push('sceneName');
+  }
+  if (scene.description !== manifest.description) {
+    mismatches.push('description');
+  }
+  if ((typeof scene.getTourPoints === 'function') !== manifest.hasTourPoints) {
+    mismatches.push('hasTourPoints');
+  }
+  if ((typeof scene.animate === 'function') !== manifest.animated) {
+    mismatches.push('animated');
   }
 
-  return new (SceneClass as new () => SceneInterface)();
+  if (mismatches.length > 0) {
+    throw reportRegistryError(
+      `${modulePath}: ${className} does not agree with meta.ts on ${mismatches.join(', ')}`
+    );
+  }
 }
 
-export async function validateSceneInterface(
-  sceneId: string
-): Promise<boolean> {
-  try {
-    const scene = await createSceneInstance(sceneId);
-
-    const requiredProps = ['sceneId', 'sceneName', 'description', 'buildScene'];
-    for (const prop of requiredProps) {
-      if (!(prop in scene)) {
-        console.error(`Scene ${sceneId} missing required property: ${prop}`);
-        return false;
-      }
+/**
+ * Picks the scene class out of a loaded module.
+ */
+function resolveSceneClass(
+  modulePath: string,
+  module: Record<string, unknown>
+): new () => SceneInterface {
+  const sceneClasses = Object.values(module).filter(isSceneClass);
+
+  if (sceneClasses.length === 0) {
+    throw reportRegistryError(
+      `${modulePath} does not export a class implementing SceneInterface`
+    );
+  }
+
+  if (sceneClasses.length > 1) {
+    throw reportRegistryError(
+      `${modulePath} exports ${sceneClasses.length} scene classes, expected exactly one`
+    );
+  }
+
+  return sceneClasses[0];
+}
+
+function discoverScenes(): SceneRegistryEntry[] {
+  const entries: SceneRegistryEntry[] = [];
+
+  for (const [modulePath, loadModule] of Object.entries(SCENE_MODULES)) {
+    const sceneId = getFolderName(modulePath);
+    const manifest = SCENE_MANIFESTS[`./${sceneId}/meta.ts`];
+
+    if (!manifest) {
+      reportRegistryError(
+        `./${sceneId}/meta.ts is missing or does not export sceneMeta`
+      );
+      continue;
+    }
+
+    let pending: Promise<new () => SceneInterface> | undefined;
+
+    entries.push({
+      sceneId,
+      sourcePath: modulePath,
+      enabled: !DISABLED_SCENE_IDS.has(sceneId),
+      manifest,
+      loadSceneClass: () => {
+        pending ??= loadModule()
+          .then((module) => resolveSceneClass(modulePath, module))
+          .catch((error) => {
+            // Let a later attempt (e.g. after a hot reload) try again
+            pending = undefined;
+            throw error;
+          });
+        return pending;
+      },
+    });
+  }
+
+  for (const [filePath, text] of Object.entries(JSON_SCENES)) {
+    const sceneId = getFolderName(filePath);
+
+    if (SCENE_MODULES[`./${sceneId}/index.ts`]) {
+      reportRegistryError(
+        `${filePath}: the folder also has an index.ts, keep only one of them`
+      );
+      continue;
     }
 
-    if (typeof scene.buildScene !== 'function') {
-      console.error(`Scene ${sceneId} buildScene is not a function`);
-      return false;
+    const result = parseJsonScene(text);
+    if (!result.ok) {
+      for (const { line, column, message } of result.errors) {
+        reportRegistryError(`${filePath}:${line}:${column}: ${message}`);
+      }
+      continue;
     }
 
-    return true;
-  } catch (error) {
-    console.error(`Error validating scene ${sceneId}:`, error);
-    return false;
+    const SceneClass = createJsonSceneClass(sceneId, result.document);
+    entries.push({
+      sceneId,
+      sourcePath: filePath,
+      enabled: !DISABLED_SCENE_IDS.has(sceneId),
+      manifest: getJsonSceneManifest(result.document),
+      loadSceneClass: () => Promise.resolve(SceneClass),
+    });
   }
+
+  return entries.sort((a, b) => a.sceneId.localeCompare(b.sceneId));
 }
 
-export async function getSceneMetadata() {
-  const sceneIds = getEnabledSceneIds();
-  const results = [];
-
-  for (const sceneId of sceneIds) {
-    try {
-      const scene = await createSceneInstance(sceneId);
-      results.push({
-        sceneId: scene.sceneId,
-        sceneName: scene.sceneName,
-        description: scene.description,
-        hasTourPoints: typeof scene.getTourPoints === 'function',
-      });
-    } catch (error) {
-      console.error(`Error getting metadata for scene ${sceneId}:`, error);
-    }
+export const SCENE_REGISTRY: SceneRegistryEntry[] = discoverScenes();
+
+export function getEnabledSceneIds(): string[] {
+  return SCENE_REGISTRY.filter((entry) => entry.enabled).map(
+    (entry) => entry.sceneId
+  );
+}
+
+export function getSceneRegistryErrors(): string[] {
+  return [...SCENE_REGISTRY_ERRORS];
+}
+
+/**
+ * Loads the scene's chunk and creates a fresh instance of it, validated
+ * against its folder name and manifest.
+ *
+ * @param onProgress - Called as loading moves from fetching the module to
+ * constructing the scene, with the overall fraction done (0 to 1)
+ */
+export async function createSceneInstance(
+  sceneId: string,
+  onProgress?: (progress: SceneLoadProgress) => void
+): Promise<SceneInterface> {
+  const entry = SCENE_REGISTRY.find(
+    (entry) => entry.enabled && entry.sceneId === sceneId
+  );
+
+  if (!entry) {
+    throw new Error(`Scene not found for scene ID: ${sceneId}`);
   }
 
-  return results;
+  onProgress?.({ stage: 'module', progress: 0 });
+  const SceneClass = await entry.loadSceneClass();
+
+  onProgress?.({ stage: 'instance', progress: 0.5 });
+  const scene = new SceneClass();
+  validateSceneInstance(entry.sourcePath, scene, entry.manifest);
+
+  return scene;
+}
+
+/**
+ * Lists enabled scenes from their manifests, without loading scene code.
+ */
+export function getSceneMetadata(): SceneMetadata[] {
+  return SCENE_REGISTRY.filter((entry) => entry.enabled).map((entry) => ({
+    sceneId: entry.sceneId,
+    ...entry.manifest,
+  }));
 }
 
 if (import.meta.env.DEV) {
@@ -1,5 +1,10 @@
 import * as THREE from 'three';
-import type { SceneInterface, TourPoint } from '../../types/scene';
+import type {
+  SceneInterface,
+  SceneViewConfig,
+  TourConfig,
+  TourPoint,
+} from '../../types/scene';
 import {
   createBox,
   createSphere,
@@ -21,6 +26,24 @@ export class SpaceStationScene implements SceneInterface {
   readonly description =
     'A modular orbital space station with command modules and solar arrays';
 
+  // No ground in space: keep the starfield background and hide the grid
+  readonly view: SceneViewConfig = {
+    camera: {
+      position: new THREE.Vector3(18, 12, 18),
+      target: new THREE.Vector3(0, 4, 0),
+      fov: 60,
+    },
+    background: null,
+    showGrid: false,
+  };
+
+  // Fly around the station in one smooth loop
+  readonly tour: TourConfig = {
+    mode: 'path',
+    pathSpeed: 5,
+    closedPath: true,
+  };
+
   async buildScene(scene: THREE.Scene): Promise<void> {
     // Create space environment with stars and dark background
     createSpaceEnvironment(scene);
@@ -246,6 +269,8 @@ export class SpaceStationScene implements SceneInterface {
           'Massive solar panel arrays provide power to the entire station.',
         cameraPosition: new THREE.Vector3(0, 12, -12),
         lookAtTarget: new THREE.Vector3(0, 8, 0),
+        // Swing wide around the habitat ring on the way up
+        waypoints: [new THREE.Vector3(-14, 8, -6)],
         duration: 2,
       },
       {
@@ -0,0 +1,11 @@
+import type { SceneManifest } from '../../types/scene';
+
+export const sceneMeta: SceneManifest = {
+  sceneName: 'Space Station Builders',
+  description:
+    'A modular orbital space station with command modules and solar arrays',
+  authors: ['Workshop team'],
+  tags: ['space', 'example'],
+  hasTourPoints: true,
+  animated: false,
+};
@@ -15,13 +15,13 @@ import {
  *
  * Instructions:
  * 1. Copy this folder to src/scenes/your-scene-name/
- * 2. Rename this file (e.g., YourScene.ts)
+ * 2. Keep this file named index.ts - the registry looks for it
  * 3. Update the class name and properties below
- * 4. Add your scene to SCENE_CONFIGS in src/scenes/registry.ts
+ * 4. Set sceneId to your folder name (e.g. 'your-scene-name')
  */
 export class TemplateScene implements SceneInterface {
   // TODO: Update these properties for your scene
-  readonly sceneId = 'template-scene';
+  readonly sceneId = 'template-scene'; // Must match your folder name
   readonly sceneName = 'Template Scene'; // Your scene's display name
   readonly description = 'A template scene for teams to copy and customize';
 
@@ -137,21 +137,14 @@ export class TemplateScene implements SceneInterface {
  * NEXT STEPS:
  *
  * 1. Copy this folder to: src/scenes/your-scene-name/
- * 2. Rename this file to match your scene
+ * 2. Keep the file name index.ts and export exactly one scene class
  * 3. Update the class name from TemplateScene to YourSceneClass
- * 4. Update sceneId, sceneName, and description
+ * 4. Update sceneId (same as the folder name), sceneName, and description
+ *    and mirror them in meta.ts (plus your names, tags and thumbnail)
  * 5. Replace the example objects with your scene
- * 6. Add your scene to src/scenes/registry.ts:
- *
- *    import { YourSceneClass } from './your-scene-name/YourSceneClass'
- *
- *    export const SCENE_REGISTRY: SceneRegistryEntry[] = [
- *      // ... existing scenes
- *      {
- *        sceneClass: YourSceneClass,
- *        enabled: true
- *      }
- *    ];
+ * 6. That's it - src/scenes/registry.ts discovers your folder automatically.
+ *    If your scene doesn't show up, check the browser console for
+ *    "Scene registry:" errors (e.g. a sceneId that doesn't match the folder)
  *
  * 7. Test your scene using npm run dev
  * 8. Navigate to Scene Selector and preview your scene
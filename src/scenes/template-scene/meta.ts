@@ -0,0 +1,17 @@
+import type { SceneManifest } from '../../types/scene';
+
+/*
+ * Scene metadata shown in the Scene Selector without loading your scene code.
+ * Keep sceneName and description identical to your scene class, and set
+ * hasTourPoints / animated to match whether you implement getTourPoints()
+ * and animate() - the registry refuses to open the scene otherwise.
+ */
+export const sceneMeta: SceneManifest = {
+  sceneName: 'Template Scene',
+  description: 'A template scene for teams to copy and customize',
+  authors: ['Your team'], // TODO: Add your names
+  tags: ['template'],
+  // thumbnail: 'your-scene-name.png', // Optional image in public/
+  hasTourPoints: true,
+  animated: false,
+};
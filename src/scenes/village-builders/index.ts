@@ -1,5 +1,11 @@
 import * as THREE from 'three';
-import type { SceneInterface, TourPoint } from '../../types/scene';
+import type {
+  Hotspot,
+  SceneInterface,
+  SceneParameter,
+  SceneParameterValue,
+  TourPoint,
+} from '../../types/scene';
 import {
   createBox,
   createSphere,
@@ -17,7 +23,58 @@ export class VillageScene implements SceneInterface {
   readonly description =
     'A peaceful medieval village with houses, trees, and a well';
 
+  readonly parameters: Record<string, SceneParameter> = {
+    cloudSpeed: {
+      type: 'number',
+      label: 'Cloud speed (units/s)',
+      default: 2,
+      min: 0,
+      max: 10,
+      step: 0.5,
+    },
+    cloudRange: {
+      type: 'number',
+      label: 'Cloud range',
+      default: 15,
+      min: 5,
+      max: 30,
+      step: 1,
+    },
+    cloudColor: { type: 'color', label: 'Cloud colour', default: COLORS.WHITE },
+    showCloud: { type: 'boolean', label: 'Show cloud', default: true },
+  };
+
   private cloud?: THREE.Mesh;
+  private cloudSpeed = 2;
+  private cloudRange = 15;
+  private cloudColor: number = COLORS.WHITE;
+  private showCloud = true;
+
+  setParameter(name: string, value: SceneParameterValue): void {
+    switch (name) {
+      case 'cloudSpeed':
+        this.cloudSpeed = value as number;
+        break;
+      case 'cloudRange':
+        this.cloudRange = value as number;
+        break;
+      case 'cloudColor':
+        this.cloudColor = value as number;
+        break;
+      case 'showCloud':
+        this.showCloud = value as boolean;
+        break;
+    }
+    this.updateCloud();
+  }
+
+  private updateCloud(): void {
+    if (!this.cloud) return;
+    (this.cloud.material as THREE.MeshLambertMaterial).color.setHex(
+      this.cloudColor
+    );
+    this.cloud.visible = this.showCloud;
+  }
 
   async buildScene(scene: THREE.Scene): Promise<void> {
     createBasicLighting(scene);
@@ -168,20 +225,21 @@ export class VillageScene implements SceneInterface {
     this.cloud = createSphere({
       radius: 1.2,
       position: { x: -10, y: 8, z: 3 },
-      color: COLORS.WHITE,
+      color: this.cloudColor,
       scale: { x: 2, y: 1, z: 1.5 },
     });
     scene.add(this.cloud);
+    this.updateCloud();
   }
 
   animate(deltaTime: number): void {
     if (this.cloud) {
       // Move cloud slowly across the sky
-      this.cloud.position.x += deltaTime * 2; // 2 units per second
+      this.cloud.position.x += deltaTime * this.cloudSpeed;
 
       // Reset cloud position when it goes too far
-      if (this.cloud.position.x > 15) {
-        this.cloud.position.x = -15;
+      if (this.cloud.position.x > this.cloudRange) {
+        this.cloud.position.x = -this.cloudRange;
       }
     }
   }
@@ -226,6 +284,33 @@ export class VillageScene implements SceneInterface {
         cameraPosition: new THREE.Vector3(0, 5, 10),
         lookAtTarget: new THREE.Vector3(0, 8, 0),
         duration: 3,
+        transitionDuration: 3.5, // slow tilt up to the sky
+        easing: 'easeInOutSine',
+      },
+    ];
+  }
+
+  getHotspots(): Hotspot[] {
+    return [
+      {
+        id: 'well',
+        position: new THREE.Vector3(-2, 3.4, 4),
+        title: 'Village Well',
+        body: 'Dug by the first settlers, it still gives the freshest water in the valley.',
+        tourPoint: 'Village Well',
+      },
+      {
+        id: 'oak',
+        position: new THREE.Vector3(-6, 5, 0),
+        title: 'Ancient Oak',
+        body: 'Villagers say the oak is older than the village itself.',
+        tourPoint: 'Ancient Oak',
+      },
+      {
+        id: 'shed',
+        position: new THREE.Vector3(6, 2.2, 2),
+        title: 'Storage Shed',
+        body: 'Tools, firewood and the occasional sleeping cat.',
       },
     ];
   }
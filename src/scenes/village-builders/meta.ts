@@ -0,0 +1,10 @@
+import type { SceneManifest } from '../../types/scene';
+
+export const sceneMeta: SceneManifest = {
+  sceneName: 'Village Builders',
+  description: 'A peaceful medieval village with houses, trees, and a well',
+  authors: ['Workshop team'],
+  tags: ['village', 'nature', 'example'],
+  hasTourPoints: true,
+  animated: true,
+};
@@ -21,6 +21,24 @@ export interface SceneInterface {
    */
   readonly description: string;
 
+  /**
+   * Optional camera, background and bounds for the preview
+   * Anything left out falls back to the preview defaults
+   */
+  readonly view?: SceneViewConfig;
+
+  /**
+   * Optional tunable values shown in the preview's control panel
+   * Keys are the parameter names passed to setParameter()
+   */
+  readonly parameters?: Record<string, SceneParameter>;
+
+  /**
+   * Optional performance limits checked by the preview's stats overlay
+   * Limits left out use the defaults
+   */
+  readonly renderBudget?: RenderBudget;
+
   /**
    * Build and populate your scene
    * Create your 3D world with complete creative freedom!
@@ -36,15 +54,213 @@ export interface SceneInterface {
    */
   getTourPoints?(): TourPoint[];
 
+  /**
+   * Optional settings for how the tour plays
+   */
+  readonly tour?: TourConfig;
+
+  /**
+   * Optional method to get hotspots: clickable markers pinned to points of
+   * your scene that open an info popup
+   */
+  getHotspots?(): Hotspot[];
+
   /**
    * Optional method called each frame for animations
    * Use this to animate objects in your scene!
    *
+   * Time is scene time: it stops while paused, follows the playback speed
+   * and long frames are clamped, so animate with deltaTime, not Date.now().
+   *
    * @param deltaTime - Time in seconds since last frame
+   * @param elapsedTime - Scene time in seconds since the scene started
+   */
+  animate?(deltaTime: number, elapsedTime: number): void;
+
+  /**
+   * Optional method receiving parameter values
+   * Called for every declared parameter before buildScene (with its default
+   * or the value from the URL), then again each time it is edited
+   *
+   * @param name - Key in `parameters`
+   * @param value - number for 'number' and 'color', boolean for 'boolean',
+   * string for 'enum'
+   */
+  setParameter?(name: string, value: SceneParameterValue): void;
+
+  /**
+   * Optional method called when the pointer enters or leaves an object
+   * marked with markInteractive() (null when it leaves)
+   */
+  onHover?(event: SceneInteractionEvent | null): void;
+
+  /**
+   * Optional method called when an object marked with markInteractive()
+   * is clicked
+   */
+  onClick?(event: SceneInteractionEvent): void;
+
+  /**
+   * Optional method called when the scene is torn down (navigating away,
+   * hot reload). Release anything the preview cannot see: timers, event
+   * listeners, render targets, audio...
+   * Geometries, materials and textures of objects added to the scene are
+   * disposed by the preview afterwards.
+   */
+  dispose?(): void;
+
+  /**
+   * Optional method called when the scene stops rendering
+   * (e.g. the browser tab is hidden)
+   */
+  onPause?(): void;
+
+  /**
+   * Optional method called when the scene starts rendering again after
+   * onPause()
+   */
+  onResume?(): void;
+}
+
+/**
+ * Pointer interaction with an interactive object
+ */
+export interface SceneInteractionEvent {
+  /**
+   * The object that was marked interactive
+   */
+  object: THREE.Object3D;
+
+  /**
+   * The mesh actually under the pointer (object itself or a descendant)
    */
-  animate?(deltaTime: number): void;
+  hitObject: THREE.Object3D;
+
+  /**
+   * World-space point where the pointer ray hit
+   */
+  point: THREE.Vector3;
+}
+
+/**
+ * How the preview should frame a scene
+ */
+export interface SceneViewConfig {
+  /**
+   * Initial camera pose and lens
+   */
+  camera?: {
+    /**
+     * Initial camera position (default: 15, 10, 15)
+     */
+    position?: THREE.Vector3;
+
+    /**
+     * Point the camera orbits around and looks at (default: 0, 2, 0)
+     */
+    target?: THREE.Vector3;
+
+    /**
+     * Vertical field of view in degrees (default: 75)
+     */
+    fov?: number;
+
+    /**
+     * Near and far clipping planes (default: 0.1 and 1000)
+     */
+    near?: number;
+    far?: number;
+  };
+
+  /**
+   * Closest and furthest orbit distance from the target (default: 5 to 50)
+   */
+  zoom?: {
+    min: number;
+    max: number;
+  };
+
+  /**
+   * Background colour, or null to leave it to buildScene
+   * (default: sky blue)
+   */
+  background?: THREE.ColorRepresentation | null;
+
+  /**
+   * Whether to show the ground grid helper (default: true)
+   */
+  showGrid?: boolean;
+
+  /**
+   * World-space box the scene occupies, used to aim the camera at its
+   * centre and size the grid and the maximum zoom distance when those are
+   * not given (default: 50 x 50 units)
+   */
+  bounds?: THREE.Box3;
+}
+
+/**
+ * Limits above which the stats overlay warns that a scene is too heavy
+ */
+export interface RenderBudget {
+  /**
+   * Draw calls per frame (default: 300)
+   */
+  drawCalls?: number;
+
+  /**
+   * Triangles per frame (default: 500,000)
+   */
+  triangles?: number;
+
+  /**
+   * Geometries and textures held on the GPU (default: 300 and 50)
+   */
+  geometries?: number;
+  textures?: number;
+
+  /**
+   * Average frame time in milliseconds (default: 33, i.e. 30 FPS)
+   */
+  frameTime?: number;
 }
 
+/**
+ * Tunable scene parameter declaration
+ */
+export type SceneParameter =
+  | {
+      type: 'number';
+      label?: string;
+      default: number;
+      min: number;
+      max: number;
+      step?: number;
+    }
+  | {
+      type: 'color';
+      label?: string;
+      /**
+       * Colour as a hex number, like the COLORS constants
+       */
+      default: number;
+    }
+  | {
+      type: 'boolean';
+      label?: string;
+      default: boolean;
+    }
+  | {
+      type: 'enum';
+      label?: string;
+      default: string;
+      options: readonly string[];
+    };
+
+export type SceneParameterValue = number | boolean | string;
+
+export type SceneParameterValues = Record<string, SceneParameterValue>;
+
 /**
  * Tour point definition for guided tours
  */
@@ -73,12 +289,175 @@ export interface TourPoint {
    * Duration to pause at this point (in seconds)
    */
   duration: number;
+
+  /**
+   * Optional time to fly to this point from the previous one
+   * (in seconds, default: 2)
+   */
+  transitionDuration?: number;
+
+  /**
+   * Optional easing curve of the flight to this point
+   * (default: 'easeInOutCubic')
+   */
+  easing?: EasingName;
+
+  /**
+   * Optional extra camera positions the path passes through on its way to
+   * this point (only used in 'path' tour mode)
+   */
+  waypoints?: THREE.Vector3[];
+}
+
+/**
+ * How the tour moves between tour points
+ */
+export interface TourConfig {
+  /**
+   * 'points' flies from point to point and pauses at each one (default),
+   * 'path' glides along one smooth curve through all points, without pauses
+   */
+  mode?: 'points' | 'path';
+
+  /**
+   * Camera speed along the path in units per second (default: 4)
+   */
+  pathSpeed?: number;
+
+  /**
+   * Whether the path curves from the last point back to the first one
+   * instead of flying back (default: false)
+   */
+  closedPath?: boolean;
 }
 
 /**
- * Scene registry entry
+ * Easing curves available for tour transitions
+ */
+export type EasingName =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInCubic'
+  | 'easeOutCubic'
+  | 'easeInOutCubic'
+  | 'easeInOutSine';
+
+/**
+ * Static description of a scene, exported as `sceneMeta` from
+ * `src/scenes/<sceneId>/meta.ts` so the gallery can list scenes without
+ * loading or constructing them
+ */
+export interface SceneManifest {
+  /**
+   * Display name, must match the scene class
+   */
+  sceneName: string;
+
+  /**
+   * Brief description, must match the scene class
+   */
+  description: string;
+
+  /**
+   * Names of the people who built the scene
+   */
+  authors: string[];
+
+  /**
+   * Free-form keywords (e.g. 'space', 'nature')
+   */
+  tags: string[];
+
+  /**
+   * Optional preview image, relative to the `public/` folder
+   */
+  thumbnail?: string;
+
+  /**
+   * Whether the scene implements getTourPoints()
+   */
+  hasTourPoints: boolean;
+
+  /**
+   * Whether the scene implements animate()
+   */
+  animated: boolean;
+}
+
+/**
+ * Info marker anchored to a point of the scene
+ */
+export interface Hotspot {
+  /**
+   * Unique identifier within the scene
+   */
+  id: string;
+
+  /**
+   * World position the marker is pinned to
+   */
+  position: THREE.Vector3;
+
+  /**
+   * Popup title
+   */
+  title: string;
+
+  /**
+   * Popup text
+   */
+  body: string;
+
+  /**
+   * Optional name of a TourPoint: clicking the hotspot flies the camera there
+   */
+  tourPoint?: string;
+}
+
+/**
+ * Scene manifest together with the scene ID it was registered under
+ */
+export interface SceneMetadata extends SceneManifest {
+  sceneId: string;
+}
+
+/**
+ * Scene registry entry, discovered from `src/scenes/<sceneId>/index.ts` or
+ * `src/scenes/<sceneId>/scene.json`
  */
 export interface SceneRegistryEntry {
-  sceneClass: new () => SceneInterface;
+  sceneId: string;
+
+  /**
+   * File the scene comes from, relative to `src/scenes/`
+   */
+  sourcePath: string;
+
   enabled: boolean;
+  manifest: SceneManifest;
+
+  /**
+   * Loads the scene's own chunk and resolves its class (scene files are
+   * already loaded)
+   */
+  loadSceneClass: () => Promise<new () => SceneInterface>;
+}
+
+/**
+ * Progress reported while a scene is loaded and built
+ */
+export interface SceneLoadProgress {
+  /**
+   * What is currently happening:
+   * fetching the scene chunk, constructing the scene, running buildScene,
+   * or waiting for assets (textures, ...) requested by the scene
+   */
+  stage: 'module' | 'instance' | 'build' | 'assets' | 'ready';
+
+  /**
+   * Overall fraction done, from 0 to 1
+   */
+  progress: number;
 }
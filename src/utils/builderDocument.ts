@@ -0,0 +1,295 @@
+import * as THREE from 'three';
+import {
+  COLORS,
+  createBox,
+  createCone,
+  createCylinder,
+  createHouse,
+  createPlane,
+  createSphere,
+  createTree,
+} from './primitives';
+import type { XYZ } from './transformChanges';
+
+export type BuilderShape =
+  | 'box'
+  | 'sphere'
+  | 'cylinder'
+  | 'cone'
+  | 'plane'
+  | 'tree'
+  | 'house';
+
+export type ColorName = keyof typeof COLORS;
+
+/**
+ * One object placed in the builder: a primitive, a tree or house, or a
+ * group holding other items
+ */
+export interface BuilderItem {
+  id: string;
+  type: BuilderShape | 'group';
+  name: string;
+  /** Group the item belongs to, top level otherwise */
+  parentId?: string;
+  /** Colour of the shape, of the roof for houses. Unused by trees and groups. */
+  color: ColorName;
+  position: XYZ;
+  /** Radians */
+  rotation: XYZ;
+  scale: XYZ;
+}
+
+/**
+ * Tour point in a JSON-friendly shape (no THREE.Vector3)
+ */
+export interface BuilderTourPoint {
+  name: string;
+  description: string;
+  cameraPosition: XYZ;
+  lookAtTarget: XYZ;
+  duration: number;
+}
+
+/**
+ * Everything needed to generate a scene folder
+ */
+export interface BuilderDocument {
+  sceneId: string;
+  sceneName: string;
+  description: string;
+  authors: string[];
+  /** Adds createGroundPlane() */
+  ground: boolean;
+  groundColor: ColorName;
+  items: BuilderItem[];
+  tourPoints: BuilderTourPoint[];
+}
+
+export const BUILDER_SHAPE_LABELS: Record<BuilderShape, string> = {
+  box: '📦 Box',
+  sphere: '⚪ Sphere',
+  cylinder: '🛢️ Cylinder',
+  cone: '🔺 Cone',
+  plane: '▭ Plane',
+  tree: '🌳 Tree',
+  house: '🏠 House',
+};
+
+export const GROUND_SIZE = 30;
+
+// Height that puts each shape on the ground, with the default sizes
+const REST_HEIGHT: Record<BuilderShape, number> = {
+  box: 0.5,
+  sphere: 1,
+  cylinder: 1,
+  cone: 1,
+  plane: 0.01,
+  tree: 0,
+  house: 0,
+};
+
+const DEFAULT_COLOR: Record<BuilderShape, ColorName> = {
+  box: 'WOOD',
+  sphere: 'TREE_LEAVES',
+  cylinder: 'WOOD',
+  cone: 'SUNSET_ORANGE',
+  plane: 'SAND',
+  tree: 'TREE_LEAVES',
+  house: 'RED',
+};
+
+const STORAGE_KEY = 'scene-builder:document';
+
+export const createEmptyDocument = (): BuilderDocument => ({
+  sceneId: 'my-scene',
+  sceneName: 'My Scene',
+  description: 'A scene made with the scene builder',
+  authors: [],
+  ground: true,
+  groundColor: 'GRASS',
+  items: [],
+  tourPoints: [],
+});
+
+const createId = (): string => Math.random().toString(36).slice(2, 10);
+
+/**
+ * New item of the given shape standing on the ground at `x`, `z`
+ */
+export const createBuilderItem = (
+  type: BuilderShape,
+  existing: BuilderItem[],
+  at: { x: number; z: number } = { x: 0, z: 0 }
+): BuilderItem => {
+  const label = type.charAt(0).toUpperCase() + type.slice(1);
+  const count = existing.filter((item) => item.type === type).length;
+  return {
+    id: createId(),
+    type,
+    name: `${label} ${count + 1}`,
+    color: DEFAULT_COLOR[type],
+    position: { x: at.x, y: REST_HEIGHT[type], z: at.z },
+    // Planes lie flat, like the ground
+    rotation: { x: type === 'plane' ? -Math.PI / 2 : 0, y: 0, z: 0 },
+    scale: { x: 1, y: 1, z: 1 },
+  };
+};
+
+/**
+ * Moves items into a new group placed at the origin, so they keep their
+ * positions. All items must share the same parent.
+ */
+export const groupItems = (
+  items: BuilderItem[],
+  ids: string[]
+): { items: BuilderItem[]; group: BuilderItem } => {
+  const parentId = items.find((item) => item.id === ids[0])?.parentId;
+  const group: BuilderItem = {
+    id: createId(),
+    type: 'group',
+    name: `Group ${items.filter((item) => item.type === 'group').length + 1}`,
+    parentId,
+    color: 'WHITE',
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    scale: { x: 1, y: 1, z: 1 },
+  };
+  return {
+    group,
+    items: [
+      ...items.map((item) =>
+        ids.includes(item.id) ? { ...item, parentId: group.id } : item
+      ),
+      group,
+    ],
+  };
+};
+
+const toMatrix = ({ position, rotation, scale }: BuilderItem) =>
+  new THREE.Matrix4().compose(
+    new THREE.Vector3(position.x, position.y, position.z),
+    new THREE.Quaternion().setFromEuler(
+      new THREE.Euler(rotation.x, rotation.y, rotation.z)
+    ),
+    new THREE.Vector3(scale.x, scale.y, scale.z)
+  );
+
+/**
+ * Removes a group, moving its items to the group's parent. The group's
+ * transform is applied to the items so they stay where they are.
+ */
+export const ungroupItem = (
+  items: BuilderItem[],
+  groupId: string
+): BuilderItem[] => {
+  const group = items.find((item) => item.id === groupId);
+  if (!group) return items;
+  const groupMatrix = toMatrix(group);
+
+  return items
+    .filter((item) => item.id !== groupId)
+    .map((item) => {
+      if (item.parentId !== groupId) return item;
+
+      const position = new THREE.Vector3();
+      const quaternion = new THREE.Quaternion();
+      const scale = new THREE.Vector3();
+      groupMatrix
+        .clone()
+        .multiply(toMatrix(item))
+        .decompose(position, quaternion, scale);
+      const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+
+      return {
+        ...item,
+        parentId: group.parentId,
+        position: { x: position.x, y: position.y, z: position.z },
+        rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
+        scale: { x: scale.x, y: scale.y, z: scale.z },
+      };
+    });
+};
+
+/**
+ * Removes an item, and the contents of groups
+ */
+export const removeItem = (items: BuilderItem[], id: string): BuilderItem[] => {
+  const removed = new Set([id]);
+  // Nested groups can come in any order, repeat until nothing is added
+  let size = 0;
+  while (size !== removed.size) {
+    size = removed.size;
+    items.forEach((item) => {
+      if (item.parentId && removed.has(item.parentId)) removed.add(item.id);
+    });
+  }
+  return items.filter((item) => !removed.has(item.id));
+};
+
+/**
+ * Creates the Three.js object of an item, the same way the generated code
+ * does. Groups are created empty.
+ */
+export const createItemObject = (item: BuilderItem): THREE.Object3D => {
+  const color = COLORS[item.color];
+  let object: THREE.Object3D;
+  switch (item.type) {
+    case 'box':
+      object = createBox({ color });
+      break;
+    case 'sphere':
+      object = createSphere({ color });
+      break;
+    case 'cylinder':
+      object = createCylinder({ color });
+      break;
+    case 'cone':
+      object = createCone({ color });
+      break;
+    case 'plane':
+      object = createPlane({ color });
+      break;
+    case 'tree':
+      object = createTree();
+      break;
+    case 'house':
+      object = createHouse({ roofColor: color });
+      break;
+    default:
+      object = new THREE.Group();
+  }
+
+  object.name = item.name;
+  object.position.set(item.position.x, item.position.y, item.position.z);
+  object.rotation.set(item.rotation.x, item.rotation.y, item.rotation.z);
+  object.scale.set(item.scale.x, item.scale.y, item.scale.z);
+  return object;
+};
+
+/**
+ * Restores the document saved by `saveBuilderDocument`, if any
+ */
+export const loadBuilderDocument = (): BuilderDocument => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as BuilderDocument;
+      if (Array.isArray(parsed.items)) {
+        return { ...createEmptyDocument(), ...parsed };
+      }
+    }
+  } catch (error) {
+    console.warn('Could not restore the scene builder draft:', error);
+  }
+  return createEmptyDocument();
+};
+
+export const saveBuilderDocument = (draft: BuilderDocument): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(draft));
+  } catch (error) {
+    // Storage can be full or disabled, the builder still works
+    console.warn('Could not save the scene builder draft:', error);
+  }
+};
@@ -0,0 +1,281 @@
+import * as THREE from 'three';
+import {
+  GROUND_SIZE,
+  type BuilderDocument,
+  type BuilderItem,
+} from './builderDocument';
+import { tourPointsToTypeScript } from './tourExport';
+import type { XYZ } from './transformChanges';
+
+export interface SceneFiles {
+  'index.ts': string;
+  'meta.ts': string;
+}
+
+const SCENE_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const SHAPE_FACTORIES = {
+  box: 'createBox',
+  sphere: 'createSphere',
+  cylinder: 'createCylinder',
+  cone: 'createCone',
+  plane: 'createPlane',
+  tree: 'createTree',
+  house: 'createHouse',
+} as const;
+
+const RESERVED_NAMES = new Set(['scene', 'ground', 'THREE', 'COLORS']);
+
+/**
+ * Scene IDs double as folder names: lowercase words separated by dashes
+ */
+export const isValidSceneId = (sceneId: string): boolean =>
+  SCENE_ID_PATTERN.test(sceneId);
+
+const toWords = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+const capitalize = (word: string): string =>
+  word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+/**
+ * Class name for a scene ID, e.g. `my-village` → `MyVillageScene`
+ */
+export const toClassName = (sceneId: string): string => {
+  const name = toWords(sceneId).map(capitalize).join('') || 'My';
+  const prefixed = /^[0-9]/.test(name) ? `Scene${name}` : name;
+  return prefixed.endsWith('Scene') ? prefixed : `${prefixed}Scene`;
+};
+
+/**
+ * Quotes a string the way Prettier would: single quotes unless the text
+ * contains one. Escapes are those of JSON, plus the line and paragraph
+ * separators that older parsers reject in string literals.
+ */
+const quote = (text: string): string => {
+  const json = JSON.stringify(text).replace(
+    /[\u2028\u2029]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16)}`
+  );
+  return text.includes("'")
+    ? json
+    : `'${json.slice(1, -1).replace(/\\"/g, '"')}'`;
+};
+
+/**
+ * Text safe to put inside a block comment
+ */
+const commentText = (text: string): string =>
+  text.replace(/\s+/g, ' ').replace(/\*\//g, '*\\/');
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const formatXYZ = ({ x, y, z }: XYZ): string =>
+  `{ x: ${round(x)}, y: ${round(y)}, z: ${round(z)} }`;
+
+const isXYZ = ({ x, y, z }: XYZ, value: number): boolean =>
+  round(x) === value && round(y) === value && round(z) === value;
+
+/**
+ * Gives every item a unique camelCase variable name derived from its name
+ */
+const assignVariableNames = (items: BuilderItem[]): Map<string, string> => {
+  const names = new Map<string, string>();
+  const used = new Set(RESERVED_NAMES);
+
+  for (const item of items) {
+    const words = toWords(item.name);
+    let base = words
+      .map((word, index) =>
+        index === 0 ? word.toLowerCase() : capitalize(word)
+      )
+      .join('');
+    if (!base || /^[0-9]/.test(base)) base = `${item.type}${base}`;
+
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    used.add(name);
+    names.set(item.id, name);
+  }
+
+  return names;
+};
+
+/**
+ * Statements creating one item and adding it to its parent
+ */
+const itemToStatements = (
+  item: BuilderItem,
+  variable: string,
+  parent: string
+): string[] => {
+  const position = isXYZ(item.position, 0) ? undefined : item.position;
+  const rotation = isXYZ(item.rotation, 0) ? undefined : item.rotation;
+  const scale = isXYZ(item.scale, 1) ? undefined : item.scale;
+  // Trees, houses and groups are positioned through their options or
+  // setters, the primitives take everything as options
+  const isPrimitive =
+    item.type !== 'group' && item.type !== 'tree' && item.type !== 'house';
+
+  const lines: string[] = [];
+  const setters: [string, XYZ][] = [];
+
+  if (item.type === 'group') {
+    lines.push(`const ${variable} = new THREE.Group();`);
+    if (position) setters.push(['position', position]);
+  } else {
+    const options: string[] = [];
+    if (position) options.push(`position: ${formatXYZ(position)},`);
+    if (isPrimitive) {
+      if (rotation) options.push(`rotation: ${formatXYZ(rotation)},`);
+      if (scale) options.push(`scale: ${formatXYZ(scale)},`);
+      options.push(`color: COLORS.${item.color},`);
+    } else if (item.type === 'house') {
+      options.push(`roofColor: COLORS.${item.color},`);
+    }
+
+    const factory = SHAPE_FACTORIES[item.type];
+    lines.push(
+      ...(options.length === 0
+        ? [`const ${variable} = ${factory}();`]
+        : [
+            `const ${variable} = ${factory}({`,
+            ...options.map((option) => `  ${option}`),
+            '});',
+          ])
+    );
+  }
+
+  if (!isPrimitive) {
+    if (rotation) setters.push(['rotation', rotation]);
+    if (scale) setters.push(['scale', scale]);
+  }
+
+  lines.push(`${variable}.name = ${quote(item.name)};`);
+  for (const [key, { x, y, z }] of setters) {
+    lines.push(
+      `${variable}.${key}.set(${round(x)}, ${round(y)}, ${round(z)});`
+    );
+  }
+  lines.push(`${parent}.add(${variable});`);
+
+  return lines;
+};
+
+const indent = (lines: string[], spaces: number): string[] =>
+  lines.map((line) => (line ? ' '.repeat(spaces) + line : line));
+
+/**
+ * Generates the index.ts of a scene folder, following the template scene
+ */
+export const generateSceneIndex = (draft: BuilderDocument): string => {
+  const className = toClassName(draft.sceneId);
+  const variables = assignVariableNames(draft.items);
+  const hasTour = draft.tourPoints.length > 0;
+
+  // Groups first, then what they contain, in the order items were added
+  const body: string[] = [];
+  const emit = (parentId: string | undefined, parent: string) => {
+    for (const item of draft.items) {
+      if (item.parentId !== parentId) continue;
+      const variable = variables.get(item.id)!;
+      body.push('', ...itemToStatements(item, variable, parent));
+      if (item.type === 'group') emit(item.id, variable);
+    }
+  };
+  emit(undefined, 'scene');
+
+  const factories = new Set(
+    draft.items
+      .filter((item) => item.type !== 'group')
+      .map((item) => SHAPE_FACTORIES[item.type as keyof typeof SHAPE_FACTORIES])
+  );
+  const imports = [
+    'createBasicLighting',
+    ...(draft.ground ? ['createGroundPlane'] : []),
+    ...[...factories].sort(),
+  ];
+  // Trees are the only items without a colour
+  if (
+    draft.ground ||
+    draft.items.some((item) => item.type !== 'group' && item.type !== 'tree')
+  ) {
+    imports.push('COLORS');
+  }
+
+  const lines = [
+    "import * as THREE from 'three';",
+    hasTour
+      ? "import type { SceneInterface, TourPoint } from '../../types/scene';"
+      : "import type { SceneInterface } from '../../types/scene';",
+    'import {',
+    ...imports.map((name) => `  ${name},`),
+    "} from '../../utils/primitives';",
+    '',
+    '/*',
+    ` * ${commentText(draft.sceneName)} - made with the scene builder (/builder).`,
+    ' * Keep editing it by hand like any other scene.',
+    ' */',
+    `export class ${className} implements SceneInterface {`,
+    `  readonly sceneId = ${quote(draft.sceneId)};`,
+    `  readonly sceneName = ${quote(draft.sceneName)};`,
+    `  readonly description = ${quote(draft.description)};`,
+    '',
+    '  async buildScene(scene: THREE.Scene): Promise<void> {',
+    '    createBasicLighting(scene);',
+    ...(draft.ground
+      ? [
+          '',
+          '    const ground = createGroundPlane({',
+          `      size: ${GROUND_SIZE},`,
+          `      color: COLORS.${draft.groundColor},`,
+          '    });',
+          '    scene.add(ground);',
+        ]
+      : []),
+    ...indent(body, 4),
+    '  }',
+  ];
+
+  if (hasTour) {
+    const tourPoints = draft.tourPoints.map((point) => ({
+      ...point,
+      cameraPosition: new THREE.Vector3().copy(point.cameraPosition),
+      lookAtTarget: new THREE.Vector3().copy(point.lookAtTarget),
+    }));
+    lines.push('', tourPointsToTypeScript(tourPoints));
+  }
+
+  lines.push('}', '');
+  return lines.join('\n');
+};
+
+/**
+ * Generates the meta.ts of a scene folder, matching the generated class
+ */
+export const generateSceneMeta = (draft: BuilderDocument): string =>
+  [
+    "import type { SceneManifest } from '../../types/scene';",
+    '',
+    'export const sceneMeta: SceneManifest = {',
+    `  sceneName: ${quote(draft.sceneName)},`,
+    `  description: ${quote(draft.description)},`,
+    `  authors: [${draft.authors.map(quote).join(', ')}],`,
+    "  tags: ['builder'],",
+    `  hasTourPoints: ${draft.tourPoints.length > 0},`,
+    '  animated: false,',
+    '};',
+    '',
+  ].join('\n');
+
+export const generateSceneFiles = (draft: BuilderDocument): SceneFiles => ({
+  'index.ts': generateSceneIndex(draft),
+  'meta.ts': generateSceneMeta(draft),
+});
@@ -0,0 +1,175 @@
+import * as THREE from 'three';
+import { isPreviewHelper, markPreviewHelper } from './previewHelpers';
+
+export interface DebugViewOptions {
+  /** Draw every mesh as a wireframe, keeping its colours */
+  wireframe: boolean;
+  /** Shade surfaces by their normal direction */
+  normals: boolean;
+  /** Box around each top-level object of the scene */
+  boundingBoxes: boolean;
+  /** X (red), Y (green) and Z (blue) axes at the origin */
+  axes: boolean;
+  /** Light positions and directions, plus shadow camera frustums */
+  lightHelpers: boolean;
+}
+
+export const DEBUG_VIEW_LABELS: Record<keyof DebugViewOptions, string> = {
+  wireframe: 'Wireframe',
+  normals: 'Normals',
+  boundingBoxes: 'Bounding boxes',
+  axes: 'Axes',
+  lightHelpers: 'Lights & shadow cameras',
+};
+
+export const DEFAULT_DEBUG_VIEW: DebugViewOptions = {
+  wireframe: false,
+  normals: false,
+  boundingBoxes: false,
+  axes: false,
+  lightHelpers: false,
+};
+
+type Helper = THREE.Object3D & { update?: () => void; dispose?: () => void };
+
+/**
+ * Debug visualisations layered on top of a scene without changing the
+ * scene's code: helpers are added as preview helpers, and the material
+ * changes are undone when a mode is switched off.
+ */
+export class DebugView {
+  private readonly scene: THREE.Scene;
+  private readonly axesSize: number;
+  private options: DebugViewOptions = DEFAULT_DEBUG_VIEW;
+
+  // Original wireframe flag of every material switched to wireframe
+  private readonly wireframeMaterials = new Map<THREE.Material, boolean>();
+  private readonly normalMaterial = new THREE.MeshNormalMaterial();
+  private boxHelpers: Helper[] = [];
+  private lightHelpers: Helper[] = [];
+  private axesHelper: Helper | null = null;
+
+  /**
+   * @param axesSize - Length of the axes helper, in scene units
+   */
+  constructor(scene: THREE.Scene, axesSize: number) {
+    this.scene = scene;
+    this.axesSize = axesSize;
+  }
+
+  apply(options: DebugViewOptions): void {
+    const previous = this.options;
+    this.options = options;
+
+    if (options.wireframe !== previous.wireframe) {
+      this.setWireframe(options.wireframe);
+    }
+
+    this.normalMaterial.wireframe = options.wireframe;
+    this.scene.overrideMaterial = options.normals ? this.normalMaterial : null;
+
+    if (options.boundingBoxes !== previous.boundingBoxes) {
+      this.boxHelpers = this.replaceHelpers(
+        this.boxHelpers,
+        options.boundingBoxes ? this.createBoxHelpers() : []
+      );
+    }
+
+    if (options.lightHelpers !== previous.lightHelpers) {
+      this.lightHelpers = this.replaceHelpers(
+        this.lightHelpers,
+        options.lightHelpers ? this.createLightHelpers() : []
+      );
+    }
+
+    if (options.axes !== previous.axes) {
+      const [axes] = this.replaceHelpers(
+        this.axesHelper ? [this.axesHelper] : [],
+        options.axes ? [new THREE.AxesHelper(this.axesSize)] : []
+      );
+      this.axesHelper = axes ?? null;
+    }
+  }
+
+  /**
+   * Keeps helpers in step with animated objects. Call once per frame.
+   */
+  update(): void {
+    this.boxHelpers.forEach((helper) => helper.update?.());
+    this.lightHelpers.forEach((helper) => helper.update?.());
+  }
+
+  dispose(): void {
+    this.apply(DEFAULT_DEBUG_VIEW);
+    this.normalMaterial.dispose();
+  }
+
+  private setWireframe(enabled: boolean): void {
+    if (!enabled) {
+      this.wireframeMaterials.forEach((original, material) => {
+        (material as THREE.MeshBasicMaterial).wireframe = original;
+      });
+      this.wireframeMaterials.clear();
+      return;
+    }
+
+    this.scene.traverse((object) => {
+      if (!(object instanceof THREE.Mesh) || isPreviewHelper(object)) return;
+
+      const materials: THREE.Material[] = Array.isArray(object.material)
+        ? object.material
+        : [object.material];
+      for (const material of materials) {
+        // Materials can be shared between meshes, only remember them once
+        if ('wireframe' in material && !this.wireframeMaterials.has(material)) {
+          this.wireframeMaterials.set(material, material.wireframe as boolean);
+          (material as THREE.MeshBasicMaterial).wireframe = true;
+        }
+      }
+    });
+  }
+
+  private createBoxHelpers(): Helper[] {
+    return this.scene.children
+      .filter(
+        (object) =>
+          !isPreviewHelper(object) &&
+          !(object instanceof THREE.Light) &&
+          !(object instanceof THREE.Camera)
+      )
+      .map((object) => new THREE.BoxHelper(object, 0xffff00));
+  }
+
+  private createLightHelpers(): Helper[] {
+    const helpers: Helper[] = [];
+
+    this.scene.traverse((object) => {
+      if (isPreviewHelper(object)) return;
+
+      if (object instanceof THREE.DirectionalLight) {
+        helpers.push(new THREE.DirectionalLightHelper(object, 5));
+      } else if (object instanceof THREE.SpotLight) {
+        helpers.push(new THREE.SpotLightHelper(object));
+      } else if (object instanceof THREE.PointLight) {
+        helpers.push(new THREE.PointLightHelper(object, 1));
+      } else if (object instanceof THREE.HemisphereLight) {
+        helpers.push(new THREE.HemisphereLightHelper(object, 2));
+      }
+
+      if (object instanceof THREE.Light && object.castShadow && object.shadow) {
+        helpers.push(new THREE.CameraHelper(object.shadow.camera));
+      }
+    });
+
+    return helpers;
+  }
+
+  private replaceHelpers(current: Helper[], next: Helper[]): Helper[] {
+    current.forEach((helper) => {
+      this.scene.remove(helper);
+      helper.dispose?.();
+    });
+    next.forEach((helper) => this.scene.add(markPreviewHelper(helper)));
+    return next;
+  }
+}
@@ -0,0 +1,52 @@
+import * as THREE from 'three';
+
+const disposeMaterial = (material: THREE.Material): void => {
+  // Textures hang off arbitrary material properties (map, normalMap, ...)
+  for (const value of Object.values(material)) {
+    if (value instanceof THREE.Texture) {
+      value.dispose();
+    }
+  }
+  material.dispose();
+};
+
+/**
+ * Releases the GPU resources held by an object and all of its descendants:
+ * geometries, materials and the textures those materials use.
+ * Also clears scene backgrounds/environment maps when given a THREE.Scene.
+ *
+ * Shared geometries and materials are only disposed once.
+ */
+export const disposeObject3D = (root: THREE.Object3D): void => {
+  const disposed = new Set<{ dispose: () => void }>();
+
+  root.traverse((object) => {
+    const { geometry, material } = object as Partial<
+      Pick<THREE.Mesh, 'geometry' | 'material'>
+    >;
+
+    if (geometry && !disposed.has(geometry)) {
+      disposed.add(geometry);
+      geometry.dispose();
+    }
+
+    const materials = Array.isArray(material) ? material : [material];
+    for (const mat of materials) {
+      if (mat && !disposed.has(mat)) {
+        disposed.add(mat);
+        disposeMaterial(mat);
+      }
+    }
+  });
+
+  if (root instanceof THREE.Scene) {
+    if (root.background instanceof THREE.Texture) {
+      root.background.dispose();
+    }
+    if (root.environment) {
+      root.environment.dispose();
+    }
+  }
+
+  root.clear();
+};
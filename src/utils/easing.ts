@@ -0,0 +1,20 @@
+import type { EasingName } from '../types/scene';
+
+/**
+ * Easing curves mapping linear progress (0 to 1) to eased progress
+ */
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeInQuad: (t) => t * t,
+  easeOutQuad: (t) => t * (2 - t),
+  easeInOutQuad: (t) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+  easeInCubic: (t) => t * t * t,
+  easeOutCubic: (t) => 1 - (1 - t) ** 3,
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  easeInOutSine: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+};
+
+export const DEFAULT_EASING: EasingName = 'easeInOutCubic';
+
+export const ease = (name: EasingName | undefined, t: number): number =>
+  EASINGS[name ?? DEFAULT_EASING](Math.min(1, Math.max(0, t)));
@@ -0,0 +1,332 @@
+import type * as THREE from 'three';
+import type { SceneParameterValues } from '../types/scene';
+import {
+  describeObject,
+  getObjectIndexPath,
+  resolveObjectPath,
+  setObjectColor,
+} from './sceneGraph';
+import {
+  changedKeys,
+  type Transform,
+  type TransformChange,
+} from './transformChanges';
+
+/**
+ * Edit of a single object, as reported by the gizmo and the inspector
+ */
+export type ObjectEdit =
+  | { type: 'transform'; before: Transform; after: Transform }
+  | { type: 'color'; before: string; after: string }
+  | { type: 'visibility'; before: boolean; after: boolean };
+
+/**
+ * One undoable step. Commands store the values from before and after the
+ * edit, so they can be replayed in both directions. Objects are referred
+ * to by their index path, which survives a page reload, and checked
+ * against their label.
+ */
+export type EditCommand =
+  | (ObjectEdit & {
+      path: number[];
+      /**
+       * Object name when the edit was made, for the history list and to
+       * check the path still leads to the same object
+       */
+      label: string;
+      source: 'gizmo' | 'inspector';
+      time: number;
+    })
+  | {
+      type: 'parameters';
+      before: SceneParameterValues;
+      after: SceneParameterValues;
+      time: number;
+    };
+
+/**
+ * Commands in order, the first `cursor` of which are applied. The others
+ * were undone and can be redone.
+ */
+export interface EditHistory {
+  entries: EditCommand[];
+  cursor: number;
+}
+
+export const EMPTY_HISTORY: EditHistory = { entries: [], cursor: 0 };
+
+// Older commands are forgotten past this many
+const MAX_HISTORY_LENGTH = 200;
+
+// Edits of the same thing closer together than this are one command, so a
+// slider drag or typing "12.5" can be undone in one step
+const MERGE_WINDOW_MS = 1500;
+
+const STORAGE_PREFIX = 'scene-history:';
+const STORAGE_VERSION = 1;
+
+export const createObjectCommand = (
+  object: THREE.Object3D,
+  root: THREE.Object3D,
+  edit: ObjectEdit,
+  source: 'gizmo' | 'inspector'
+): EditCommand => ({
+  ...edit,
+  path: getObjectIndexPath(object, root),
+  label: describeObject(object),
+  source,
+  time: Date.now(),
+});
+
+/**
+ * Commands that may absorb a later one, `undefined` for one-off actions
+ * such as gizmo drags (already one command per drag) and toggles
+ */
+const getMergeKey = (command: EditCommand): string | undefined => {
+  switch (command.type) {
+    case 'parameters':
+      return `parameters:${Object.keys(command.after).sort().join(',')}`;
+    case 'visibility':
+      return undefined;
+    default:
+      return command.source === 'inspector'
+        ? `${command.type}:${command.path.join('/')}`
+        : undefined;
+  }
+};
+
+const isNoOp = (command: EditCommand): boolean => {
+  switch (command.type) {
+    case 'transform':
+      return changedKeys(command.before, command.after).length === 0;
+    case 'parameters':
+      return Object.entries(command.after).every(
+        ([name, value]) => command.before[name] === value
+      );
+    default:
+      return command.before === command.after;
+  }
+};
+
+/**
+ * Adds a command after the applied ones, dropping the undone ones.
+ * Quick successive edits of the same thing are merged into one command.
+ */
+export const pushCommand = (
+  history: EditHistory,
+  command: EditCommand
+): EditHistory => {
+  const entries = history.entries.slice(0, history.cursor);
+  const last = entries[entries.length - 1];
+  const mergeKey = getMergeKey(command);
+
+  if (
+    last &&
+    mergeKey !== undefined &&
+    getMergeKey(last) === mergeKey &&
+    command.time - last.time < MERGE_WINDOW_MS
+  ) {
+    const merged = {
+      ...last,
+      after: command.after,
+      time: command.time,
+    } as EditCommand;
+    entries.pop();
+    if (!isNoOp(merged)) entries.push(merged);
+  } else if (!isNoOp(command)) {
+    entries.push(command);
+  }
+
+  const kept = entries.slice(-MAX_HISTORY_LENGTH);
+  return { entries: kept, cursor: kept.length };
+};
+
+/**
+ * The object an object command was made on. Commands find it by index
+ * path, so after the scene's code changes another object may sit there:
+ * that one is ignored unless it still has the same label.
+ */
+const resolveCommandObject = (
+  command: Exclude<EditCommand, { type: 'parameters' }>,
+  root: THREE.Object3D
+): THREE.Object3D | undefined => {
+  const object = resolveObjectPath(root, command.path);
+  return object && describeObject(object) === command.label
+    ? object
+    : undefined;
+};
+
+/**
+ * Applies one side of a command to the scene
+ *
+ * @param side - `before` to undo the command, `after` to (re)do it
+ * @returns false when the object the command targets no longer exists,
+ * or was replaced by another one
+ */
+export const applyCommand = (
+  command: EditCommand,
+  side: 'before' | 'after',
+  root: THREE.Object3D,
+  setParameters: (values: SceneParameterValues) => void
+): boolean => {
+  if (command.type === 'parameters') {
+    setParameters(command[side]);
+    return true;
+  }
+
+  const object = resolveCommandObject(command, root);
+  if (!object) return false;
+
+  switch (command.type) {
+    case 'transform': {
+      const { position, rotation, scale } = command[side];
+      object.position.set(position.x, position.y, position.z);
+      object.rotation.set(rotation.x, rotation.y, rotation.z);
+      object.scale.set(scale.x, scale.y, scale.z);
+      break;
+    }
+    case 'color':
+      setObjectColor(object, command[side]);
+      break;
+    case 'visibility':
+      object.visible = command[side];
+      break;
+  }
+  return true;
+};
+
+/**
+ * Short description of a command for the history list
+ */
+export const describeCommand = (command: EditCommand): string => {
+  switch (command.type) {
+    case 'parameters':
+      return `🎛 ${Object.keys(command.after).join(', ')}`;
+    case 'transform':
+      return `${command.source === 'gizmo' ? '✥' : '✎'} ${command.label}: ${changedKeys(command.before, command.after).join(', ')}`;
+    case 'color':
+      return `🎨 ${command.label}: ${command.after}`;
+    case 'visibility':
+      return `👁 ${command.after ? 'Show' : 'Hide'} ${command.label}`;
+  }
+};
+
+/**
+ * Transform changes of the applied commands, for the code export
+ */
+export const getAppliedTransformChanges = (
+  history: EditHistory,
+  root: THREE.Object3D
+): TransformChange[] =>
+  history.entries.slice(0, history.cursor).flatMap((command) => {
+    if (command.type !== 'transform') return [];
+    const object = resolveCommandObject(command, root);
+    return object
+      ? [{ object, before: command.before, after: command.after }]
+      : [];
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isXYZ = (value: unknown): boolean =>
+  isRecord(value) &&
+  ['x', 'y', 'z'].every((key) => Number.isFinite(value[key]));
+
+// Checks for the `before` and `after` values of each type of command
+const VALUE_CHECKS: Record<EditCommand['type'], (value: unknown) => boolean> = {
+  parameters: (value) =>
+    isRecord(value) &&
+    Object.values(value).every((parameter) =>
+      ['number', 'boolean', 'string'].includes(typeof parameter)
+    ),
+  transform: (value) =>
+    isRecord(value) &&
+    isXYZ(value.position) &&
+    isXYZ(value.rotation) &&
+    isXYZ(value.scale),
+  color: (value) => typeof value === 'string',
+  visibility: (value) => typeof value === 'boolean',
+};
+
+/**
+ * Whether a saved command has everything applyCommand() needs. Saved
+ * history can be from an older version of the app, or edited by hand.
+ */
+const isValidCommand = (value: unknown): value is EditCommand => {
+  if (
+    !isRecord(value) ||
+    typeof value.type !== 'string' ||
+    !Object.hasOwn(VALUE_CHECKS, value.type) ||
+    typeof value.time !== 'number'
+  ) {
+    return false;
+  }
+  const check = VALUE_CHECKS[value.type as EditCommand['type']];
+  if (!check(value.before) || !check(value.after)) return false;
+
+  return (
+    value.type === 'parameters' ||
+    (Array.isArray(value.path) &&
+      value.path.every((index) => Number.isInteger(index) && index >= 0) &&
+      typeof value.label === 'string' &&
+      (value.source === 'gizmo' || value.source === 'inspector'))
+  );
+};
+
+/**
+ * Restores the history saved for a scene, if any. Saved commands that are
+ * malformed are dropped.
+ */
+export const loadEditHistory = (sceneId: string): EditHistory => {
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + sceneId);
+    if (saved) {
+      const parsed: unknown = JSON.parse(saved);
+      if (
+        isRecord(parsed) &&
+        parsed.version === STORAGE_VERSION &&
+        Array.isArray(parsed.entries) &&
+        Number.isInteger(parsed.cursor)
+      ) {
+        const { entries } = parsed;
+        const cursor = Math.min(
+          Math.max(parsed.cursor as number, 0),
+          entries.length
+        );
+        const valid = entries.filter(isValidCommand);
+        if (valid.length < entries.length) {
+          console.warn(
+            `Dropped ${entries.length - valid.length} invalid saved edits of ${sceneId}`
+          );
+        }
+        return {
+          entries: valid,
+          cursor: entries.slice(0, cursor).filter(isValidCommand).length,
+        };
+      }
+    }
+  } catch (error) {
+    console.warn(`Could not restore the edit history of ${sceneId}:`, error);
+  }
+  return EMPTY_HISTORY;
+};
+
+export const saveEditHistory = (
+  sceneId: string,
+  history: EditHistory
+): void => {
+  try {
+    if (history.entries.length === 0) {
+      localStorage.removeItem(STORAGE_PREFIX + sceneId);
+    } else {
+      localStorage.setItem(
+        STORAGE_PREFIX + sceneId,
+        JSON.stringify({ version: STORAGE_VERSION, ...history })
+      );
+    }
+  } catch (error) {
+    // Storage can be full or disabled, editing still works
+    console.warn(`Could not save the edit history of ${sceneId}:`, error);
+  }
+};
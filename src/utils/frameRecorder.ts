@@ -0,0 +1,183 @@
+import { createWebm, type WebmFrame, type WebmVideo } from './webm';
+import { createZip, type ZipEntry } from './zip';
+
+export interface RecordingOptions {
+  /**
+   * 'tour' records the scene's tour once from its first point,
+   * 'animation' records `duration` seconds from the current view
+   */
+  source: 'tour' | 'animation';
+  fps: number;
+  duration: number;
+}
+
+/**
+ * Collects rendered canvas frames and turns them into a downloadable file
+ */
+export interface FrameRecorder {
+  readonly format: 'webm' | 'png';
+
+  /**
+   * Grabs the canvas as frame `index`. Must be called right after rendering,
+   * before yielding to the browser, while the WebGL drawing buffer is valid.
+   */
+  addFrame(canvas: HTMLCanvasElement, index: number): Promise<void>;
+  finish(): Promise<Blob>;
+  cancel(): void;
+}
+
+// Seconds between key frames, which is also how far apart seek points are
+const KEY_FRAME_INTERVAL = 2;
+
+// Frames waiting in the encoder before recording waits for it to catch up
+const MAX_ENCODE_QUEUE = 8;
+
+const CODECS: { codec: string; codecId: WebmVideo['codecId'] }[] = [
+  { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+  { codec: 'vp8', codecId: 'V_VP8' },
+];
+
+/**
+ * Whether this browser can encode video (WebCodecs); otherwise recordings
+ * fall back to PNG frames
+ */
+export const canRecordVideo = (): boolean =>
+  typeof VideoEncoder !== 'undefined';
+
+class WebmRecorder implements FrameRecorder {
+  readonly format = 'webm';
+
+  private readonly encoder: VideoEncoder;
+  private readonly codecId: WebmVideo['codecId'];
+  private readonly width: number;
+  private readonly height: number;
+  private readonly fps: number;
+  private readonly frames: WebmFrame[] = [];
+  private frameCount = 0;
+  private error: Error | null = null;
+
+  constructor(config: VideoEncoderConfig, codecId: WebmVideo['codecId']) {
+    this.codecId = codecId;
+    this.width = config.width;
+    this.height = config.height;
+    this.fps = config.framerate ?? 30;
+    this.encoder = new VideoEncoder({
+      output: (chunk) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        this.frames.push({
+          data,
+          timestamp: chunk.timestamp / 1000,
+          keyFrame: chunk.type === 'key',
+        });
+      },
+      error: (error) => {
+        this.error = error;
+      },
+    });
+    this.encoder.configure(config);
+  }
+
+  async addFrame(canvas: HTMLCanvasElement, index: number): Promise<void> {
+    if (this.error) throw this.error;
+
+    const frameDuration = 1e6 / this.fps;
+    const frame = new VideoFrame(canvas, {
+      timestamp: Math.round(index * frameDuration),
+      duration: Math.round(frameDuration),
+      // Encoders want even dimensions, drop the odd row/column if any
+      visibleRect: { x: 0, y: 0, width: this.width, height: this.height },
+    });
+
+    try {
+      while (this.encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      this.encoder.encode(frame, {
+        keyFrame: index % Math.round(this.fps * KEY_FRAME_INTERVAL) === 0,
+      });
+      this.frameCount = index + 1;
+    } finally {
+      frame.close();
+    }
+  }
+
+  async finish(): Promise<Blob> {
+    await this.encoder.flush();
+    this.encoder.close();
+    if (this.error) throw this.error;
+
+    return createWebm({
+      codecId: this.codecId,
+      width: this.width,
+      height: this.height,
+      duration: (this.frameCount * 1000) / this.fps,
+      frames: this.frames,
+    });
+  }
+
+  cancel(): void {
+    if (this.encoder.state !== 'closed') {
+      this.encoder.close();
+    }
+  }
+}
+
+class PngSequenceRecorder implements FrameRecorder {
+  readonly format = 'png';
+
+  private readonly entries: ZipEntry[] = [];
+
+  async addFrame(canvas: HTMLCanvasElement, index: number): Promise<void> {
+    // toBlob copies the canvas straight away, encoding happens later
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, 'image/png')
+    );
+    if (!blob) throw new Error(`Could not encode frame ${index}`);
+
+    this.entries.push({
+      name: `frame-${String(index).padStart(5, '0')}.png`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+
+  async finish(): Promise<Blob> {
+    return createZip(this.entries);
+  }
+
+  cancel(): void {
+    this.entries.length = 0;
+  }
+}
+
+/**
+ * Creates a WebM recorder when the browser can encode VP9 or VP8 at this
+ * size, and a PNG sequence recorder otherwise
+ */
+export const createFrameRecorder = async (
+  width: number,
+  height: number,
+  fps: number
+): Promise<FrameRecorder> => {
+  if (canRecordVideo()) {
+    const evenWidth = Math.floor(width / 2) * 2;
+    const evenHeight = Math.floor(height / 2) * 2;
+
+    for (const { codec, codecId } of CODECS) {
+      const config: VideoEncoderConfig = {
+        codec,
+        width: evenWidth,
+        height: evenHeight,
+        framerate: fps,
+        bitrate: Math.round(evenWidth * evenHeight * fps * 0.1),
+      };
+      const { supported } = await VideoEncoder.isConfigSupported(config);
+      if (supported) {
+        return new WebmRecorder(config, codecId);
+      }
+    }
+    console.warn('No supported video codec, recording PNG frames instead');
+  }
+
+  return new PngSequenceRecorder();
+};
@@ -0,0 +1,230 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import type { SceneInterface } from '../types/scene';
+import { disposeObject3D } from './dispose';
+import {
+  getObjectIndexPath,
+  listChildren,
+  resolveObjectPath,
+} from './sceneGraph';
+
+export interface GltfExportOptions {
+  /**
+   * A single .glb file rather than .gltf JSON with embedded buffers
+   */
+  binary: boolean;
+
+  /**
+   * Plays `animate()` for this long and stores the transform motion
+   * (position, rotation, scale) as keyframes
+   */
+  animation?: {
+    duration: number;
+    fps: number;
+  };
+}
+
+/**
+ * Copies the visible part of the scene, without the preview's helpers.
+ * Geometries and materials are shared with the original.
+ */
+const cloneForExport = (
+  object: THREE.Object3D,
+  clones: Map<THREE.Object3D, THREE.Object3D>
+): THREE.Object3D => {
+  const copy = object.clone(false);
+  clones.set(object, copy);
+  listChildren(object)
+    .filter((child) => child.visible)
+    .forEach((child) => copy.add(cloneForExport(child, clones)));
+  return copy;
+};
+
+/**
+ * glTF lights shine along their node's -Z axis instead of at a target, so
+ * point each copied light at where its original was aiming
+ */
+const aimLights = (clones: Map<THREE.Object3D, THREE.Object3D>) => {
+  const target = new THREE.Vector3();
+  clones.forEach((copy, original) => {
+    if (
+      !(original instanceof THREE.DirectionalLight) &&
+      !(original instanceof THREE.SpotLight)
+    ) {
+      return;
+    }
+    const light = copy as THREE.DirectionalLight | THREE.SpotLight;
+    original.target.getWorldPosition(target);
+    light.lookAt(target);
+    light.target = new THREE.Object3D();
+    light.target.position.set(0, 0, -1);
+    light.add(light.target);
+  });
+};
+
+/**
+ * Everything besides the transform that `animate()` commonly changes, to
+ * notice motion the keyframes cannot hold
+ */
+const describeAppearance = (object: THREE.Object3D): string => {
+  const parts: unknown[] = [object.visible];
+  if (object instanceof THREE.Light) {
+    parts.push(object.intensity, object.color.getHex());
+  }
+  if (object instanceof THREE.Mesh) {
+    const materials: THREE.Material[] = [object.material].flat();
+    materials.forEach((material) =>
+      parts.push(
+        material.opacity,
+        'color' in material && material.color instanceof THREE.Color
+          ? material.color.getHex()
+          : null
+      )
+    );
+  }
+  return JSON.stringify(parts);
+};
+
+/**
+ * Samples the transform motion of every exported object over `duration`
+ * seconds. A fresh instance of the scene is built and played for this,
+ * then disposed, so the scene on screen is left untouched.
+ *
+ * Only position, rotation and scale are baked: changes of colour,
+ * opacity, visibility or light intensity are left out (with a warning).
+ */
+const bakeAnimation = async (
+  liveScene: THREE.Scene,
+  clones: Map<THREE.Object3D, THREE.Object3D>,
+  createInstance: () => Promise<SceneInterface>,
+  { duration, fps }: NonNullable<GltfExportOptions['animation']>
+): Promise<THREE.AnimationClip | undefined> => {
+  const instance = await createInstance();
+  const scene = new THREE.Scene();
+
+  try {
+    await instance.buildScene(scene);
+    if (!instance.animate) return undefined;
+
+    // Pair each object of the fresh scene with the exported copy of its
+    // counterpart on screen, found at the same place in the tree
+    const pairs: { object: THREE.Object3D; copy: THREE.Object3D }[] = [];
+    scene.traverse((object) => {
+      if (object === scene) return;
+      const live = resolveObjectPath(
+        liveScene,
+        getObjectIndexPath(object, scene)
+      );
+      const copy = live && clones.get(live);
+      if (copy) pairs.push({ object, copy });
+    });
+
+    const frameCount = Math.max(2, Math.round(duration * fps) + 1);
+    const times: number[] = [];
+    const appearances = pairs.map(({ object }) => describeAppearance(object));
+    let appearanceChanged = false;
+    const samples = pairs.map(() => ({
+      position: [] as number[],
+      quaternion: [] as number[],
+      scale: [] as number[],
+    }));
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const time = frame / fps;
+      instance.animate(frame === 0 ? 0 : 1 / fps, time);
+      times.push(time);
+      pairs.forEach(({ object }, index) => {
+        samples[index].position.push(...object.position.toArray());
+        samples[index].quaternion.push(...object.quaternion.toArray());
+        samples[index].scale.push(...object.scale.toArray());
+        appearanceChanged ||= describeAppearance(object) !== appearances[index];
+      });
+    }
+
+    if (appearanceChanged) {
+      console.warn(
+        'glTF export: animate() also changes colours, opacity, visibility or lights, only position, rotation and scale are baked'
+      );
+    }
+
+    // Only objects that actually move get tracks
+    const moves = (values: number[], size: number) =>
+      values.some((value, index) => value !== values[index % size]);
+
+    const tracks: THREE.KeyframeTrack[] = [];
+    pairs.forEach(({ copy }, index) => {
+      const { position, quaternion, scale } = samples[index];
+      if (moves(position, 3)) {
+        tracks.push(
+          new THREE.VectorKeyframeTrack(
+            `${copy.uuid}.position`,
+            times,
+            position
+          )
+        );
+      }
+      if (moves(quaternion, 4)) {
+        tracks.push(
+          new THREE.QuaternionKeyframeTrack(
+            `${copy.uuid}.quaternion`,
+            times,
+            quaternion
+          )
+        );
+      }
+      if (moves(scale, 3)) {
+        tracks.push(
+          new THREE.VectorKeyframeTrack(`${copy.uuid}.scale`, times, scale)
+        );
+      }
+    });
+
+    return tracks.length > 0
+      ? new THREE.AnimationClip('animate', times[times.length - 1], tracks)
+      : undefined;
+  } finally {
+    try {
+      instance.dispose?.();
+    } catch (error) {
+      console.error('Error disposing the baking scene:', error);
+    }
+    disposeObject3D(scene);
+  }
+};
+
+/**
+ * Exports the scene as glTF 2.0, keeping the hierarchy, names, materials
+ * and lights. Grid, gizmo and other preview helpers are left out, as are
+ * hidden objects.
+ *
+ * @param createInstance - Creates a new instance of the scene, set up like
+ * the one on screen, to bake its animation with
+ */
+export const exportSceneToGltf = async (
+  scene: THREE.Scene,
+  name: string,
+  options: GltfExportOptions,
+  createInstance?: () => Promise<SceneInterface>
+): Promise<Blob> => {
+  const clones = new Map<THREE.Object3D, THREE.Object3D>();
+  const root = new THREE.Scene();
+  root.name = name;
+  listChildren(scene)
+    .filter((child) => child.visible)
+    .forEach((child) => root.add(cloneForExport(child, clones)));
+  aimLights(clones);
+
+  const clip =
+    options.animation && createInstance
+      ? await bakeAnimation(scene, clones, createInstance, options.animation)
+      : undefined;
+
+  const result = await new GLTFExporter().parseAsync(root, {
+    binary: options.binary,
+    animations: clip ? [clip] : [],
+  });
+
+  return result instanceof ArrayBuffer
+    ? new Blob([result], { type: 'model/gltf-binary' })
+    : new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+};
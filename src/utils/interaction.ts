@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+import type { SceneInteractionEvent } from '../types/scene';
+import { isPreviewHelper } from './previewHelpers';
+
+/**
+ * Marks an object (mesh or group) as interactive: the preview highlights it
+ * on hover and reports hovers and clicks on it, or on any of its children,
+ * to the scene's onHover/onClick methods.
+ *
+ * @returns The same object, so it can wrap a primitive call
+ */
+export const markInteractive = <T extends THREE.Object3D>(object: T): T => {
+  object.userData.interactive = true;
+  return object;
+};
+
+/**
+ * Returns the closest interactive object at or above `object`, if any
+ */
+export const findInteractiveAncestor = (
+  object: THREE.Object3D
+): THREE.Object3D | undefined => {
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    if (current.userData.interactive) return current;
+    current = current.parent;
+  }
+  return undefined;
+};
+
+/**
+ * Casts a ray from normalised device coordinates against the interactive
+ * objects of a scene and returns the nearest hit
+ */
+export const pickInteractive = (
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  pointer: THREE.Vector2
+): SceneInteractionEvent | null => {
+  const targets: THREE.Object3D[] = [];
+  scene.traverseVisible((object) => {
+    if (object.userData.interactive) targets.push(object);
+  });
+  if (targets.length === 0) return null;
+
+  const raycaster = new THREE.Raycaster();
+  raycaster.setFromCamera(pointer, camera);
+
+  for (const hit of raycaster.intersectObjects(targets, true)) {
+    const object = findInteractiveAncestor(hit.object);
+    if (object) {
+      return { object, hitObject: hit.object, point: hit.point.clone() };
+    }
+  }
+  return null;
+};
+
+/**
+ * Casts a ray from normalised device coordinates against every mesh of a
+ * scene, interactive or not, ignoring the preview's own helpers
+ *
+ * @returns The nearest mesh hit, if any
+ */
+export const pickMesh = (
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  pointer: THREE.Vector2
+): THREE.Mesh | null => {
+  const targets = scene.children.filter((object) => !isPreviewHelper(object));
+
+  const raycaster = new THREE.Raycaster();
+  raycaster.setFromCamera(pointer, camera);
+
+  // Points and lines have generous hit areas and would hide the meshes.
+  // The raycaster also hits hidden objects, skip those.
+  const isShown = (object: THREE.Object3D | null): boolean =>
+    !object || (object.visible && isShown(object.parent));
+  const hit = raycaster
+    .intersectObjects(targets, true)
+    .find(
+      (intersection) =>
+        intersection.object instanceof THREE.Mesh &&
+        isShown(intersection.object)
+    );
+  return (hit?.object as THREE.Mesh | undefined) ?? null;
+};
+
+const HIGHLIGHT_EMISSIVE = 0x333333;
+const originalEmissive = new WeakMap<THREE.Material, number>();
+
+/**
+ * Tints every material under `object` that supports emissive colour, or
+ * restores the original colours
+ */
+export const setHighlighted = (
+  object: THREE.Object3D,
+  highlighted: boolean
+): void => {
+  object.traverse((child) => {
+    const { material } = child as Partial<Pick<THREE.Mesh, 'material'>>;
+    const materials = Array.isArray(material) ? material : [material];
+
+    for (const mat of materials) {
+      const emissive = (mat as Partial<THREE.MeshLambertMaterial> | undefined)
+        ?.emissive;
+      if (!mat || !emissive) continue;
+
+      if (highlighted) {
+        if (!originalEmissive.has(mat)) {
+          originalEmissive.set(mat, emissive.getHex());
+        }
+        emissive.setHex(HIGHLIGHT_EMISSIVE);
+      } else if (originalEmissive.has(mat)) {
+        emissive.setHex(originalEmissive.get(mat)!);
+        originalEmissive.delete(mat);
+      }
+    }
+  });
+};
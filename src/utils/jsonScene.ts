@@ -0,0 +1,339 @@
+import * as THREE from 'three';
+import type {
+  SceneInterface,
+  SceneManifest,
+  SceneViewConfig,
+  TourConfig,
+  TourPoint,
+} from '../types/scene';
+import type {
+  JsonAnimation,
+  JsonColor,
+  JsonLight,
+  JsonSceneDocument,
+  JsonSceneNode,
+  JsonVector,
+} from './jsonSceneSchema';
+import {
+  COLORS,
+  createBasicLighting,
+  createBox,
+  createCone,
+  createCylinder,
+  createGroundPlane,
+  createHouse,
+  createPlane,
+  createSphere,
+  createTree,
+} from './primitives';
+
+const toColor = (color: JsonColor): number => {
+  if (typeof color === 'number') return color;
+  if (Object.hasOwn(COLORS, color)) return COLORS[color as keyof typeof COLORS];
+  return parseInt(color.slice(1), 16);
+};
+
+const toVector = ([x, y, z]: JsonVector) => ({ x, y, z });
+
+const toVector3 = ([x, y, z]: JsonVector) => new THREE.Vector3(x, y, z);
+
+const toRadians = ([x, y, z]: JsonVector) => ({
+  x: THREE.MathUtils.degToRad(x),
+  y: THREE.MathUtils.degToRad(y),
+  z: THREE.MathUtils.degToRad(z),
+});
+
+interface AnimatedObject {
+  object: THREE.Object3D;
+  animation: JsonAnimation;
+  // Pose the motion is relative to
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+  scale: THREE.Vector3;
+}
+
+const createNodeObject = (node: JsonSceneNode): THREE.Object3D => {
+  const common = {
+    color:
+      'color' in node && node.color !== undefined
+        ? toColor(node.color)
+        : undefined,
+    castShadow: 'castShadow' in node ? node.castShadow : undefined,
+    receiveShadow: 'receiveShadow' in node ? node.receiveShadow : undefined,
+  };
+
+  switch (node.type) {
+    case 'box':
+      return createBox({
+        ...common,
+        width: node.width,
+        height: node.height,
+        depth: node.depth,
+        opacity: node.opacity,
+      });
+    case 'sphere':
+      return createSphere({
+        ...common,
+        radius: node.radius,
+        segments: node.segments,
+      });
+    case 'cylinder':
+      return createCylinder({
+        ...common,
+        radiusTop: node.radiusTop,
+        radiusBottom: node.radiusBottom,
+        height: node.height,
+        segments: node.segments,
+      });
+    case 'cone':
+      return createCone({
+        ...common,
+        radius: node.radius,
+        height: node.height,
+        segments: node.segments,
+      });
+    case 'plane':
+      return createPlane({ ...common, width: node.width, height: node.height });
+    case 'tree':
+      return createTree({
+        trunkHeight: node.trunkHeight,
+        leavesRadius: node.leavesRadius,
+      });
+    case 'house':
+      return createHouse({
+        width: node.width,
+        height: node.height,
+        depth: node.depth,
+        roofColor:
+          node.roofColor !== undefined ? toColor(node.roofColor) : undefined,
+      });
+    case 'group':
+      return new THREE.Group();
+  }
+};
+
+const createLight = (light: JsonLight): THREE.Light => {
+  const color = light.color !== undefined ? toColor(light.color) : 0xffffff;
+
+  switch (light.type) {
+    case 'ambient':
+      return new THREE.AmbientLight(color, light.intensity ?? 0.4);
+    case 'hemisphere':
+      return new THREE.HemisphereLight(
+        color,
+        light.groundColor !== undefined
+          ? toColor(light.groundColor)
+          : COLORS.EARTH_BROWN,
+        light.intensity ?? 0.6
+      );
+    case 'directional': {
+      const directional = new THREE.DirectionalLight(
+        color,
+        light.intensity ?? 0.8
+      );
+      directional.position.copy(toVector3(light.position ?? [50, 50, 25]));
+      directional.castShadow = light.castShadow ?? false;
+      return directional;
+    }
+    case 'point': {
+      const point = new THREE.PointLight(
+        color,
+        light.intensity ?? 1,
+        light.distance ?? 0
+      );
+      point.position.copy(toVector3(light.position ?? [0, 5, 0]));
+      point.castShadow = light.castShadow ?? false;
+      return point;
+    }
+    case 'spot': {
+      const spot = new THREE.SpotLight(
+        color,
+        light.intensity ?? 1,
+        light.distance ?? 0,
+        THREE.MathUtils.degToRad(light.angle ?? 30)
+      );
+      spot.position.copy(toVector3(light.position ?? [0, 10, 0]));
+      spot.target.position.copy(toVector3(light.target ?? [0, 0, 0]));
+      spot.castShadow = light.castShadow ?? false;
+      return spot;
+    }
+  }
+};
+
+const hasAnimations = (nodes: JsonSceneNode[]): boolean =>
+  nodes.some(
+    (node) =>
+      node.animation !== undefined ||
+      (node.type === 'group' && hasAnimations(node.children))
+  );
+
+/**
+ * What the gallery shows for a scene file, the equivalent of `meta.ts`
+ */
+export const getJsonSceneManifest = (
+  document: JsonSceneDocument
+): SceneManifest => ({
+  sceneName: document.sceneName,
+  description: document.description,
+  authors: document.authors,
+  tags: document.tags ?? [],
+  thumbnail: document.thumbnail,
+  hasTourPoints: (document.tourPoints?.length ?? 0) > 0,
+  animated: hasAnimations(document.objects),
+});
+
+/**
+ * Turns a validated scene file into a scene class the registry can load
+ * like any class-based scene
+ */
+export const createJsonSceneClass = (
+  sceneId: string,
+  document: JsonSceneDocument
+): new () => SceneInterface => {
+  const { view, environment, tourPoints } = document;
+
+  return class JsonScene implements SceneInterface {
+    readonly sceneId = sceneId;
+    readonly sceneName = document.sceneName;
+    readonly description = document.description;
+    readonly view: SceneViewConfig = {
+      camera: view?.camera && {
+        position: view.camera.position && toVector3(view.camera.position),
+        target: view.camera.target && toVector3(view.camera.target),
+        fov: view.camera.fov,
+      },
+      zoom: view?.zoom,
+      showGrid: view?.showGrid,
+      background:
+        environment?.background !== undefined
+          ? toColor(environment.background)
+          : undefined,
+    };
+    readonly tour?: TourConfig = document.tour;
+
+    // Only defined when the file uses them, the registry checks that they
+    // agree with the manifest
+    readonly getTourPoints?: () => TourPoint[];
+    readonly animate?: (deltaTime: number, elapsedTime: number) => void;
+
+    private animated: AnimatedObject[] = [];
+
+    constructor() {
+      if (tourPoints && tourPoints.length > 0) {
+        this.getTourPoints = () =>
+          tourPoints.map((point) => ({
+            name: point.name,
+            description: point.description,
+            cameraPosition: toVector3(point.cameraPosition),
+            lookAtTarget: toVector3(point.lookAtTarget),
+            duration: point.duration,
+            transitionDuration: point.transitionDuration,
+            easing: point.easing,
+            waypoints: point.waypoints?.map(toVector3),
+          }));
+      }
+      if (hasAnimations(document.objects)) {
+        this.animate = (_deltaTime, elapsedTime) =>
+          this.playAnimations(elapsedTime);
+      }
+    }
+
+    async buildScene(scene: THREE.Scene): Promise<void> {
+      if (document.lights === 'basic') {
+        createBasicLighting(scene);
+      } else {
+        document.lights?.forEach((light) => {
+          const object = createLight(light);
+          scene.add(object);
+          if (object instanceof THREE.SpotLight) scene.add(object.target);
+        });
+      }
+
+      if (environment?.fog) {
+        const { color, near, far } = environment.fog;
+        scene.fog = new THREE.Fog(toColor(color), near, far);
+      }
+      if (environment?.ground) {
+        const { size, color } = environment.ground;
+        scene.add(
+          createGroundPlane({
+            size,
+            color: color !== undefined ? toColor(color) : undefined,
+          })
+        );
+      }
+
+      this.animated = [];
+      this.addNodes(scene, document.objects);
+    }
+
+    private addNodes(parent: THREE.Object3D, nodes: JsonSceneNode[]) {
+      for (const node of nodes) {
+        const count = node.repeat?.count ?? 1;
+        for (let copy = 0; copy < count; copy++) {
+          const object = createNodeObject(node);
+          if (node.name) {
+            object.name = count > 1 ? `${node.name} ${copy + 1}` : node.name;
+          }
+
+          const [x, y, z] = node.position ?? [0, 0, 0];
+          const [dx, dy, dz] = node.repeat?.offset ?? [0, 0, 0];
+          object.position.set(x + dx * copy, y + dy * copy, z + dz * copy);
+          if (node.rotation) {
+            const { x, y, z } = toRadians(node.rotation);
+            object.rotation.set(x, y, z);
+          }
+          if (typeof node.scale === 'number') {
+            object.scale.setScalar(node.scale);
+          } else if (node.scale) {
+            const { x, y, z } = toVector(node.scale);
+            object.scale.set(x, y, z);
+          }
+
+          if (node.type === 'group') this.addNodes(object, node.children);
+          if (node.animation) {
+            this.animated.push({
+              object,
+              animation: node.animation,
+              position: object.position.clone(),
+              rotation: object.rotation.clone(),
+              scale: object.scale.clone(),
+            });
+          }
+          parent.add(object);
+        }
+      }
+    }
+
+    private playAnimations(elapsedTime: number) {
+      for (const { object, animation, ...pose } of this.animated) {
+        switch (animation.type) {
+          case 'spin': {
+            const axis = animation.axis ?? 'y';
+            object.rotation[axis] =
+              pose.rotation[axis] +
+              THREE.MathUtils.degToRad(animation.speed) * elapsedTime;
+            break;
+          }
+          case 'bob': {
+            const axis = animation.axis ?? 'y';
+            object.position[axis] =
+              pose.position[axis] +
+              animation.amplitude *
+                Math.sin((2 * Math.PI * elapsedTime) / animation.period);
+            break;
+          }
+          case 'pulse':
+            object.scale
+              .copy(pose.scale)
+              .multiplyScalar(
+                1 +
+                  animation.amplitude *
+                    Math.sin((2 * Math.PI * elapsedTime) / animation.period)
+              );
+            break;
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,650 @@
+import type { EasingName, TourConfig } from '../types/scene';
+import { EASINGS } from './easing';
+import {
+  formatJsonPath,
+  parseJsonSource,
+  type JsonPath,
+  type SourceLocation,
+} from './jsonSource';
+import { COLORS } from './primitives';
+
+/**
+ * Version of the format below. Files declare the version they were written
+ * for, so the format can change without breaking existing scenes.
+ */
+export const JSON_SCENE_VERSION = 1;
+
+export type JsonVector = [number, number, number];
+
+/**
+ * `"#rrggbb"`, a `COLORS` name such as `"WOOD"`, or a number
+ */
+export type JsonColor = string | number;
+
+/**
+ * Simple looping motion, played by the scene's `animate()`
+ */
+export type JsonAnimation =
+  | {
+      /** Turns around an axis, in degrees per second */
+      type: 'spin';
+      axis?: 'x' | 'y' | 'z';
+      speed: number;
+    }
+  | {
+      /** Moves back and forth along an axis */
+      type: 'bob';
+      axis?: 'x' | 'y' | 'z';
+      amplitude: number;
+      /** Seconds per cycle */
+      period: number;
+    }
+  | {
+      /** Grows and shrinks by a fraction of its scale */
+      type: 'pulse';
+      amplitude: number;
+      period: number;
+    };
+
+interface JsonNodeBase {
+  name?: string;
+  position?: JsonVector;
+  /** In degrees */
+  rotation?: JsonVector;
+  scale?: number | JsonVector;
+  animation?: JsonAnimation;
+  /**
+   * Adds copies of the object, each moved by `offset` from the previous
+   * one, e.g. a row of fence posts. `count` includes the original (at
+   * most 100).
+   */
+  repeat?: { count: number; offset: JsonVector };
+}
+
+interface JsonMeshOptions {
+  color?: JsonColor;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+}
+
+/**
+ * Object of the scene, with the options of the matching `create*()` helper
+ */
+export type JsonSceneNode = JsonNodeBase &
+  (
+    | (JsonMeshOptions & {
+        type: 'box';
+        width?: number;
+        height?: number;
+        depth?: number;
+        opacity?: number;
+      })
+    | (JsonMeshOptions & { type: 'sphere'; radius?: number; segments?: number })
+    | (JsonMeshOptions & {
+        type: 'cylinder';
+        radiusTop?: number;
+        radiusBottom?: number;
+        height?: number;
+        segments?: number;
+      })
+    | (JsonMeshOptions & {
+        type: 'cone';
+        radius?: number;
+        height?: number;
+        segments?: number;
+      })
+    | (JsonMeshOptions & { type: 'plane'; width?: number; height?: number })
+    | { type: 'tree'; trunkHeight?: number; leavesRadius?: number }
+    | {
+        type: 'house';
+        width?: number;
+        height?: number;
+        depth?: number;
+        roofColor?: JsonColor;
+      }
+    | { type: 'group'; children: JsonSceneNode[] }
+  );
+
+export type JsonLight =
+  | { type: 'ambient'; color?: JsonColor; intensity?: number }
+  | {
+      type: 'hemisphere';
+      color?: JsonColor;
+      groundColor?: JsonColor;
+      intensity?: number;
+    }
+  | {
+      type: 'directional';
+      color?: JsonColor;
+      intensity?: number;
+      position?: JsonVector;
+      castShadow?: boolean;
+    }
+  | {
+      type: 'point';
+      color?: JsonColor;
+      intensity?: number;
+      position?: JsonVector;
+      distance?: number;
+      castShadow?: boolean;
+    }
+  | {
+      type: 'spot';
+      color?: JsonColor;
+      intensity?: number;
+      position?: JsonVector;
+      target?: JsonVector;
+      /** Cone half-angle in degrees */
+      angle?: number;
+      distance?: number;
+      castShadow?: boolean;
+    };
+
+export interface JsonTourPoint {
+  name: string;
+  description: string;
+  cameraPosition: JsonVector;
+  lookAtTarget: JsonVector;
+  duration: number;
+  transitionDuration?: number;
+  easing?: EasingName;
+  waypoints?: JsonVector[];
+}
+
+/**
+ * Scene described in a `src/scenes/<sceneId>/scene.json` file
+ */
+export interface JsonSceneDocument {
+  version: typeof JSON_SCENE_VERSION;
+  sceneName: string;
+  description: string;
+  authors: string[];
+  tags?: string[];
+  thumbnail?: string;
+
+  view?: {
+    camera?: { position?: JsonVector; target?: JsonVector; fov?: number };
+    zoom?: { min: number; max: number };
+    showGrid?: boolean;
+  };
+
+  environment?: {
+    background?: JsonColor;
+    fog?: { color: JsonColor; near: number; far: number };
+    /** Ground plane, as created by `createGroundPlane()` */
+    ground?: { size?: number; color?: JsonColor };
+  };
+
+  /**
+   * `"basic"` for `createBasicLighting()`, or a list of lights
+   */
+  lights?: 'basic' | JsonLight[];
+
+  objects: JsonSceneNode[];
+
+  tourPoints?: JsonTourPoint[];
+  tour?: TourConfig;
+}
+
+/**
+ * Problem found in a scene file, with where it is
+ */
+export interface JsonSceneError extends SourceLocation {
+  message: string;
+}
+
+export type JsonSceneResult =
+  | { ok: true; document: JsonSceneDocument }
+  | { ok: false; errors: JsonSceneError[] };
+
+// Checkers below report problems through this, instead of stopping at the
+// first one, so a file can be fixed in one go
+type Report = (path: JsonPath, message: string, atKey?: boolean) => void;
+
+type Check = (value: unknown, path: JsonPath, report: Report) => void;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  return JSON.stringify(value);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * ` (did you mean "color"?)` when a name looks like a typo of a known one
+ */
+const suggest = (name: string, known: readonly string[]): string => {
+  const closest = known.find(
+    (candidate) =>
+      candidate.toLowerCase() === name.toLowerCase() ||
+      editDistance(candidate, name) <= 2
+  );
+  return closest ? ` (did you mean "${closest}"?)` : '';
+};
+
+const number =
+  (range: { min?: number; max?: number; integer?: boolean } = {}): Check =>
+  (value, path, report) => {
+    if (typeof value !== 'number') {
+      report(path, `expected a number, got ${describeValue(value)}`);
+    } else if (range.integer && !Number.isInteger(value)) {
+      report(path, `expected a whole number, got ${value}`);
+    } else if (range.min !== undefined && value < range.min) {
+      report(path, `must be at least ${range.min}, got ${value}`);
+    } else if (range.max !== undefined && value > range.max) {
+      report(path, `must be at most ${range.max}, got ${value}`);
+    }
+  };
+
+const string: Check = (value, path, report) => {
+  if (typeof value !== 'string') {
+    report(path, `expected a string, got ${describeValue(value)}`);
+  }
+};
+
+const boolean: Check = (value, path, report) => {
+  if (typeof value !== 'boolean') {
+    report(path, `expected true or false, got ${describeValue(value)}`);
+  }
+};
+
+const oneOf =
+  (options: readonly string[]): Check =>
+  (value, path, report) => {
+    if (typeof value !== 'string' || !options.includes(value)) {
+      report(
+        path,
+        `expected one of ${options.map((option) => `"${option}"`).join(', ')}, got ${describeValue(value)}${typeof value === 'string' ? suggest(value, options) : ''}`
+      );
+    }
+  };
+
+const vector: Check = (value, path, report) => {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 3 ||
+    value.some((item) => typeof item !== 'number')
+  ) {
+    report(path, `expected [x, y, z] numbers, got ${describeValue(value)}`);
+  }
+};
+
+const COLOR_NAMES = Object.keys(COLORS);
+
+const color: Check = (value, path, report) => {
+  if (typeof value === 'number') {
+    number({ min: 0, max: 0xffffff, integer: true })(value, path, report);
+  } else if (typeof value !== 'string') {
+    report(path, `expected a colour, got ${describeValue(value)}`);
+  } else if (
+    !/^#[0-9a-fA-F]{6}$/.test(value) &&
+    !Object.hasOwn(COLORS, value)
+  ) {
+    report(
+      path,
+      `expected "#rrggbb" or a COLORS name, got "${value}"${suggest(value, COLOR_NAMES)}`
+    );
+  }
+};
+
+const arrayOf =
+  (item: Check, minLength = 0): Check =>
+  (value, path, report) => {
+    if (!Array.isArray(value)) {
+      report(path, `expected an array, got ${describeValue(value)}`);
+      return;
+    }
+    if (value.length < minLength) {
+      report(path, `expected at least ${minLength} item(s)`);
+    }
+    value.forEach((element, index) => item(element, [...path, index], report));
+  };
+
+const anyOf =
+  (checks: Check[], expected: string): Check =>
+  (value, path, report) => {
+    const passes = checks.some((check) => {
+      let failed = false;
+      check(value, path, () => {
+        failed = true;
+      });
+      return !failed;
+    });
+    if (!passes) {
+      report(path, `expected ${expected}, got ${describeValue(value)}`);
+    }
+  };
+
+/**
+ * Object with known properties. Unknown ones are errors: they are most
+ * often typos that would otherwise be silently ignored.
+ */
+const object =
+  (fields: Record<string, Check>, required: string[] = []): Check =>
+  (value, path, report) => {
+    if (!isPlainObject(value)) {
+      report(path, `expected an object, got ${describeValue(value)}`);
+      return;
+    }
+    const known = Object.keys(fields);
+    for (const [key, field] of Object.entries(value)) {
+      if (Object.hasOwn(fields, key)) {
+        fields[key](field, [...path, key], report);
+      } else {
+        report(
+          [...path, key],
+          `unknown property "${key}"${suggest(key, known)}`,
+          true
+        );
+      }
+    }
+    for (const key of required) {
+      if (!Object.hasOwn(value, key))
+        report(path, `missing required property "${key}"`);
+    }
+  };
+
+/**
+ * Runs `check`, then `rule` if the value passed, for rules that involve
+ * several properties of an object
+ */
+const withRule =
+  (
+    check: Check,
+    rule: (
+      value: Record<string, unknown>,
+      path: JsonPath,
+      report: Report
+    ) => void
+  ): Check =>
+  (value, path, report) => {
+    let failed = false;
+    check(value, path, (...args) => {
+      failed = true;
+      report(...args);
+    });
+    if (!failed) rule(value as Record<string, unknown>, path, report);
+  };
+
+/**
+ * Object whose properties depend on its `type`
+ */
+const variants =
+  (
+    kinds: Record<
+      string,
+      { fields: Record<string, Check>; required?: string[] }
+    >
+  ): Check =>
+  (value, path, report) => {
+    if (!isPlainObject(value)) {
+      report(path, `expected an object, got ${describeValue(value)}`);
+      return;
+    }
+    const types = Object.keys(kinds);
+    if (!Object.hasOwn(value, 'type')) {
+      report(path, `missing "type", one of ${types.join(', ')}`);
+      return;
+    }
+    const kind =
+      typeof value.type === 'string' &&
+      Object.hasOwn(kinds, value.type) &&
+      kinds[value.type];
+    if (!kind) {
+      oneOf(types)(value.type, [...path, 'type'], report);
+      return;
+    }
+    object({ type: string, ...kind.fields }, kind.required)(
+      value,
+      path,
+      report
+    );
+  };
+
+const axis = oneOf(['x', 'y', 'z']);
+const nonNegative = number({ min: 0 });
+
+const animation = variants({
+  spin: { fields: { axis, speed: number() }, required: ['speed'] },
+  bob: {
+    fields: { axis, amplitude: number(), period: number({ min: 0.01 }) },
+    required: ['amplitude', 'period'],
+  },
+  pulse: {
+    fields: { amplitude: number(), period: number({ min: 0.01 }) },
+    required: ['amplitude', 'period'],
+  },
+});
+
+// Repeats build one object per copy, so a typo such as 10000 would freeze
+// the preview
+const MAX_REPEAT_COUNT = 100;
+
+const nodeFields: Record<string, Check> = {
+  name: string,
+  position: vector,
+  rotation: vector,
+  scale: anyOf([number(), vector], 'a number or [x, y, z] numbers'),
+  animation,
+  repeat: object(
+    {
+      count: number({ min: 1, max: MAX_REPEAT_COUNT, integer: true }),
+      offset: vector,
+    },
+    ['count', 'offset']
+  ),
+};
+
+const meshFields: Record<string, Check> = {
+  ...nodeFields,
+  color,
+  castShadow: boolean,
+  receiveShadow: boolean,
+};
+
+const segments = number({ min: 3, integer: true });
+
+// Groups contain nodes, so the checker refers to itself
+const node: Check = (value, path, report) => nodeVariants(value, path, report);
+
+const nodeVariants = variants({
+  box: {
+    fields: {
+      ...meshFields,
+      width: nonNegative,
+      height: nonNegative,
+      depth: nonNegative,
+      opacity: number({ min: 0, max: 1 }),
+    },
+  },
+  sphere: { fields: { ...meshFields, radius: nonNegative, segments } },
+  cylinder: {
+    fields: {
+      ...meshFields,
+      radiusTop: nonNegative,
+      radiusBottom: nonNegative,
+      height: nonNegative,
+      segments,
+    },
+  },
+  cone: {
+    fields: {
+      ...meshFields,
+      radius: nonNegative,
+      height: nonNegative,
+      segments,
+    },
+  },
+  plane: { fields: { ...meshFields, width: nonNegative, height: nonNegative } },
+  tree: {
+    fields: {
+      ...nodeFields,
+      trunkHeight: nonNegative,
+      leavesRadius: nonNegative,
+    },
+  },
+  house: {
+    fields: {
+      ...nodeFields,
+      width: nonNegative,
+      height: nonNegative,
+      depth: nonNegative,
+      roofColor: color,
+    },
+  },
+  group: {
+    fields: { ...nodeFields, children: arrayOf(node) },
+    required: ['children'],
+  },
+});
+
+const lightFields = { color, intensity: nonNegative };
+
+const light = variants({
+  ambient: { fields: lightFields },
+  hemisphere: { fields: { ...lightFields, groundColor: color } },
+  directional: {
+    fields: { ...lightFields, position: vector, castShadow: boolean },
+  },
+  point: {
+    fields: {
+      ...lightFields,
+      position: vector,
+      distance: nonNegative,
+      castShadow: boolean,
+    },
+  },
+  spot: {
+    fields: {
+      ...lightFields,
+      position: vector,
+      target: vector,
+      angle: number({ min: 0, max: 90 }),
+      distance: nonNegative,
+      castShadow: boolean,
+    },
+  },
+});
+
+const tourPoint = object(
+  {
+    name: string,
+    description: string,
+    cameraPosition: vector,
+    lookAtTarget: vector,
+    duration: nonNegative,
+    transitionDuration: nonNegative,
+    easing: oneOf(Object.keys(EASINGS)),
+    waypoints: arrayOf(vector),
+  },
+  ['name', 'description', 'cameraPosition', 'lookAtTarget', 'duration']
+);
+
+const documentCheck = object(
+  {
+    version: number(),
+    sceneName: string,
+    description: string,
+    authors: arrayOf(string),
+    tags: arrayOf(string),
+    thumbnail: string,
+    view: object({
+      camera: object({ position: vector, target: vector, fov: number() }),
+      zoom: withRule(
+        object({ min: nonNegative, max: nonNegative }, ['min', 'max']),
+        ({ min, max }, path, report) => {
+          if ((min as number) > (max as number)) {
+            report(
+              [...path, 'min'],
+              `must not be more than max (${max}), got ${min}`
+            );
+          }
+        }
+      ),
+      showGrid: boolean,
+    }),
+    environment: object({
+      background: color,
+      fog: object({ color, near: nonNegative, far: nonNegative }, [
+        'color',
+        'near',
+        'far',
+      ]),
+      ground: object({ size: nonNegative, color }),
+    }),
+    lights: anyOf(
+      [oneOf(['basic']), arrayOf(light)],
+      '"basic" or an array of lights'
+    ),
+    objects: arrayOf(node),
+    tourPoints: arrayOf(tourPoint),
+    tour: object({
+      mode: oneOf(['points', 'path']),
+      pathSpeed: number({ min: 0.01 }),
+      closedPath: boolean,
+    }),
+  },
+  ['version', 'sceneName', 'description', 'authors', 'objects']
+);
+
+/**
+ * Parses and validates the text of a scene file. Errors point at the line
+ * and column of the offending value.
+ */
+export const parseJsonScene = (text: string): JsonSceneResult => {
+  const parsed = parseJsonSource(text);
+  if (!parsed.ok) {
+    return {
+      ok: false,
+      errors: [{ ...parsed.location, message: parsed.message }],
+    };
+  }
+
+  const { value, locate } = parsed.source;
+  const errors: JsonSceneError[] = [];
+  const report: Report = (path, message, atKey = false) =>
+    errors.push({
+      ...locate(path, { key: atKey }),
+      message: `${formatJsonPath(path)}: ${message}`,
+    });
+
+  // Checking a newer format against this version's rules would only
+  // produce confusing errors
+  if (
+    isPlainObject(value) &&
+    'version' in value &&
+    value.version !== JSON_SCENE_VERSION
+  ) {
+    report(
+      ['version'],
+      `unsupported version ${describeValue(value.version)}, this app reads version ${JSON_SCENE_VERSION}`
+    );
+    return { ok: false, errors };
+  }
+
+  documentCheck(value, [], report);
+  if (errors.length > 0) {
+    errors.sort((a, b) => a.line - b.line || a.column - b.column);
+    return { ok: false, errors };
+  }
+  return { ok: true, document: value as JsonSceneDocument };
+};
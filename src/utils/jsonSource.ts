@@ -0,0 +1,249 @@
+/**
+ * Line and column (both from 1) of a spot in a source text
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * Keys and indices leading to a value, e.g. `['objects', 3, 'color']`
+ */
+export type JsonPath = (string | number)[];
+
+/**
+ * Parsed JSON together with where each of its values starts in the text,
+ * so problems found later can point at the right line
+ */
+export interface JsonSource {
+  value: unknown;
+  /**
+   * Location of the value at a path, or of its key with `key: true`
+   * (falls back to the closest enclosing value)
+   */
+  locate: (path: JsonPath, options?: { key?: boolean }) => SourceLocation;
+}
+
+export type JsonSourceResult =
+  | { ok: true; source: JsonSource }
+  | { ok: false; message: string; location: SourceLocation };
+
+/**
+ * Formats a path as it would be written in code, e.g. `objects[3].color`
+ */
+export const formatJsonPath = (path: JsonPath): string =>
+  path
+    .map((part, index) =>
+      typeof part === 'number' ? `[${part}]` : index > 0 ? `.${part}` : part
+    )
+    .join('') || '(root)';
+
+const pathKey = (path: JsonPath): string => JSON.stringify(path);
+
+class JsonSyntaxError extends Error {
+  location: SourceLocation;
+
+  constructor(message: string, location: SourceLocation) {
+    super(message);
+    this.location = location;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Parses JSON like `JSON.parse`, but keeps track of line numbers. Syntax
+ * errors report the line and column they were found at.
+ */
+export const parseJsonSource = (text: string): JsonSourceResult => {
+  const values = new Map<string, SourceLocation>();
+  const keys = new Map<string, SourceLocation>();
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const here = (): SourceLocation => ({ line, column: index - lineStart + 1 });
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, here());
+  };
+
+  const describeNext = (): string =>
+    index >= text.length ? 'end of file' : `"${text[index]}"`;
+
+  const skipWhitespace = () => {
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '\n') {
+        line++;
+        lineStart = index + 1;
+      } else if (char !== ' ' && char !== '\t' && char !== '\r') {
+        return;
+      }
+      index++;
+    }
+  };
+
+  const expect = (char: string) => {
+    if (text[index] !== char)
+      fail(`Expected "${char}" but found ${describeNext()}`);
+    index++;
+  };
+
+  const parseString = (): string => {
+    expect('"');
+    let result = '';
+    while (text[index] !== '"') {
+      if (index >= text.length || text[index] === '\n') {
+        fail('Unterminated string');
+      }
+      if (text[index] === '\\') {
+        const escape = text[index + 1];
+        if (escape === 'u') {
+          const hex = text.slice(index + 2, index + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid \\u escape');
+          result += String.fromCharCode(parseInt(hex, 16));
+          index += 6;
+        } else if (escape in ESCAPES) {
+          result += ESCAPES[escape];
+          index += 2;
+        } else {
+          fail(`Invalid escape "\\${escape}"`);
+        }
+      } else {
+        result += text[index++];
+      }
+    }
+    index++;
+    return result;
+  };
+
+  const parseNumber = (): number => {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(
+      text.slice(index, index + 64)
+    );
+    if (!match) return fail(`Unexpected ${describeNext()}`);
+    index += match[0].length;
+    return Number(match[0]);
+  };
+
+  const parseLiteral = <T>(word: string, value: T): T => {
+    if (!text.startsWith(word, index)) fail(`Unexpected ${describeNext()}`);
+    index += word.length;
+    return value;
+  };
+
+  const parseValue = (path: JsonPath): unknown => {
+    skipWhitespace();
+    values.set(pathKey(path), here());
+
+    switch (text[index]) {
+      case '{': {
+        index++;
+        const result: Record<string, unknown> = {};
+        skipWhitespace();
+        if (text[index] === '}') {
+          index++;
+          return result;
+        }
+        for (;;) {
+          skipWhitespace();
+          const keyLocation = here();
+          if (text[index] !== '"') {
+            fail(`Expected a quoted key but found ${describeNext()}`);
+          }
+          const key = parseString();
+          if (Object.hasOwn(result, key)) fail(`Duplicate key "${key}"`);
+          keys.set(pathKey([...path, key]), keyLocation);
+          skipWhitespace();
+          expect(':');
+          // Like JSON.parse, "__proto__" is an own property, not the
+          // object's prototype
+          Object.defineProperty(result, key, {
+            value: parseValue([...path, key]),
+            enumerable: true,
+            writable: true,
+            configurable: true,
+          });
+          skipWhitespace();
+          if (text[index] === '}') {
+            index++;
+            return result;
+          }
+          if (text[index] !== ',') {
+            fail(`Expected "," or "}" but found ${describeNext()}`);
+          }
+          index++;
+          skipWhitespace();
+          // Trailing commas are the most common hand-editing mistake
+          if (text[index] === '}') fail('Trailing comma before "}"');
+        }
+      }
+      case '[': {
+        index++;
+        const result: unknown[] = [];
+        skipWhitespace();
+        if (text[index] === ']') {
+          index++;
+          return result;
+        }
+        for (;;) {
+          result.push(parseValue([...path, result.length]));
+          skipWhitespace();
+          if (text[index] === ']') {
+            index++;
+            return result;
+          }
+          if (text[index] !== ',') {
+            fail(`Expected "," or "]" but found ${describeNext()}`);
+          }
+          index++;
+          skipWhitespace();
+          if (text[index] === ']') fail('Trailing comma before "]"');
+        }
+      }
+      case '"':
+        return parseString();
+      case 't':
+        return parseLiteral('true', true);
+      case 'f':
+        return parseLiteral('false', false);
+      case 'n':
+        return parseLiteral('null', null);
+      default:
+        return parseNumber();
+    }
+  };
+
+  try {
+    const value = parseValue([]);
+    skipWhitespace();
+    if (index < text.length) fail(`Unexpected ${describeNext()} after the end`);
+
+    const locate: JsonSource['locate'] = (path, options = {}) => {
+      if (options.key) {
+        const location = keys.get(pathKey(path));
+        if (location) return location;
+      }
+      for (let length = path.length; length >= 0; length--) {
+        const location = values.get(pathKey(path.slice(0, length)));
+        if (location) return location;
+      }
+      return { line: 1, column: 1 };
+    };
+
+    return { ok: true, source: { value, locate } };
+  } catch (error) {
+    if (!(error instanceof JsonSyntaxError)) throw error;
+    return { ok: false, message: error.message, location: error.location };
+  }
+};
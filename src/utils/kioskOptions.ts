@@ -0,0 +1,59 @@
+export interface KioskOptions {
+  /**
+   * Seconds each scene stays on screen
+   */
+  interval: number;
+
+  /**
+   * Scenes to cycle through, in playing order
+   */
+  sceneIds: string[];
+}
+
+export const DEFAULT_KIOSK_INTERVAL = 60;
+export const MIN_KIOSK_INTERVAL = 5;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Reads kiosk settings from the URL:
+ * - `interval`: seconds per scene (at least MIN_KIOSK_INTERVAL)
+ * - `scenes`: comma-separated scene IDs to show, defaults to all of them
+ * - `shuffle`: `1` or `true` to play the scenes in random order
+ *
+ * Unknown scene IDs are ignored; when none are left every scene is shown.
+ */
+export const readKioskOptions = (
+  search: URLSearchParams,
+  enabledSceneIds: string[]
+): KioskOptions => {
+  const rawInterval = Number(search.get('interval') || NaN);
+  const interval = Number.isFinite(rawInterval)
+    ? Math.max(MIN_KIOSK_INTERVAL, rawInterval)
+    : DEFAULT_KIOSK_INTERVAL;
+
+  const requested = (search.get('scenes') ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const unknown = requested.filter((id) => !enabledSceneIds.includes(id));
+  if (unknown.length > 0) {
+    console.warn(`Kiosk: ignoring unknown scenes ${unknown.join(', ')}`);
+  }
+  const subset = requested.filter((id) => enabledSceneIds.includes(id));
+  const sceneIds = subset.length > 0 ? subset : enabledSceneIds;
+
+  const shuffled = ['1', 'true'].includes(search.get('shuffle') ?? '');
+
+  return {
+    interval,
+    sceneIds: shuffled ? shuffle(sceneIds) : sceneIds,
+  };
+};
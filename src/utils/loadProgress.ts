@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+
+/**
+ * Follows THREE.DefaultLoadingManager while a scene builds, so assets that a
+ * scene requests with the standard loaders (TextureLoader, ...) count towards
+ * the load progress.
+ *
+ * @param onProgress - Called with the number of finished and requested items
+ * @returns `done()` resolves once every requested asset has loaded or failed,
+ * `stop()` restores the previous manager callbacks
+ */
+export const trackAssetLoading = (
+  onProgress: (loaded: number, total: number) => void
+) => {
+  const manager = THREE.DefaultLoadingManager;
+  const previous = {
+    onStart: manager.onStart,
+    onProgress: manager.onProgress,
+    onLoad: manager.onLoad,
+    onError: manager.onError,
+  };
+
+  let pending = 0;
+  let resolveIdle: (() => void) | undefined;
+
+  manager.onStart = (url, loaded, total) => {
+    pending = total - loaded;
+    onProgress(loaded, total);
+    previous.onStart?.(url, loaded, total);
+  };
+  manager.onProgress = (url, loaded, total) => {
+    pending = total - loaded;
+    onProgress(loaded, total);
+    previous.onProgress?.(url, loaded, total);
+  };
+  manager.onLoad = () => {
+    pending = 0;
+    resolveIdle?.();
+    previous.onLoad?.();
+  };
+  manager.onError = (url) => {
+    // Failed items still advance onProgress, nothing else to track here
+    previous.onError?.(url);
+  };
+
+  return {
+    done: () =>
+      pending === 0
+        ? Promise.resolve()
+        : new Promise<void>((resolve) => {
+            resolveIdle = resolve;
+          }),
+    stop: () => {
+      Object.assign(manager, previous);
+      resolveIdle?.();
+    },
+  };
+};
@@ -0,0 +1,38 @@
+import type * as THREE from 'three';
+
+/**
+ * Marks an object added by the preview itself (grid, debug helpers) rather
+ * than by the scene, so captures and exports can leave it out
+ *
+ * @returns The same object, so it can wrap a constructor call
+ */
+export const markPreviewHelper = <T extends THREE.Object3D>(object: T): T => {
+  object.userData.previewHelper = true;
+  return object;
+};
+
+export const isPreviewHelper = (object: THREE.Object3D): boolean =>
+  object.userData.previewHelper === true;
+
+/**
+ * Runs `callback` with every preview helper of the scene hidden, then
+ * restores their visibility
+ */
+export const withPreviewHelpersHidden = <T>(
+  scene: THREE.Object3D,
+  callback: () => T
+): T => {
+  const hidden: THREE.Object3D[] = [];
+  scene.traverse((object) => {
+    if (isPreviewHelper(object) && object.visible) {
+      object.visible = false;
+      hidden.push(object);
+    }
+  });
+
+  try {
+    return callback();
+  } finally {
+    hidden.forEach((object) => (object.visible = true));
+  }
+};
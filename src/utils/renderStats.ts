@@ -0,0 +1,138 @@
+import type * as THREE from 'three';
+import type { RenderBudget } from '../types/scene';
+
+export const DEFAULT_RENDER_BUDGET: Required<RenderBudget> = {
+  drawCalls: 300,
+  triangles: 500_000,
+  geometries: 300,
+  textures: 50,
+  frameTime: 1000 / 30,
+};
+
+// Frames kept for the FPS graph
+export const STATS_HISTORY_LENGTH = 120;
+
+// Frames averaged for the displayed frame time and FPS
+const AVERAGE_WINDOW = 30;
+
+export interface RenderStatsSnapshot {
+  /** Average frame time in milliseconds */
+  frameTime: number;
+  fps: number;
+  drawCalls: number;
+  triangles: number;
+  points: number;
+  lines: number;
+  geometries: number;
+  textures: number;
+  programs: number;
+}
+
+/**
+ * Collects frame times and renderer counters, frame by frame
+ */
+export class RenderStats {
+  private readonly frameTimes = new Float32Array(STATS_HISTORY_LENGTH);
+  private cursor = 0;
+  private count = 0;
+  private latest: Omit<RenderStatsSnapshot, 'frameTime' | 'fps'> = {
+    drawCalls: 0,
+    triangles: 0,
+    points: 0,
+    lines: 0,
+    geometries: 0,
+    textures: 0,
+    programs: 0,
+  };
+
+  /**
+   * Records a rendered frame. Call right after rendering, while
+   * `info.render` still holds that frame's counters.
+   *
+   * @param frameTime - Milliseconds since the previous frame
+   */
+  recordFrame(frameTime: number, info: THREE.WebGLInfo): void {
+    this.frameTimes[this.cursor] = frameTime;
+    this.cursor = (this.cursor + 1) % STATS_HISTORY_LENGTH;
+    this.count = Math.min(this.count + 1, STATS_HISTORY_LENGTH);
+
+    this.latest = {
+      drawCalls: info.render.calls,
+      triangles: info.render.triangles,
+      points: info.render.points,
+      lines: info.render.lines,
+      geometries: info.memory.geometries,
+      textures: info.memory.textures,
+      programs: info.programs?.length ?? 0,
+    };
+  }
+
+  /**
+   * Frame times in milliseconds, oldest first
+   */
+  history(): number[] {
+    const result: number[] = [];
+    for (let i = this.count; i > 0; i--) {
+      const index =
+        (this.cursor - i + STATS_HISTORY_LENGTH) % STATS_HISTORY_LENGTH;
+      result.push(this.frameTimes[index]);
+    }
+    return result;
+  }
+
+  snapshot(): RenderStatsSnapshot {
+    const recent = this.history().slice(-AVERAGE_WINDOW);
+    const frameTime =
+      recent.length > 0
+        ? recent.reduce((sum, value) => sum + value, 0) / recent.length
+        : 0;
+
+    return {
+      ...this.latest,
+      frameTime,
+      fps: frameTime > 0 ? 1000 / frameTime : 0,
+    };
+  }
+
+  reset(): void {
+    this.cursor = 0;
+    this.count = 0;
+  }
+}
+
+/**
+ * Lists the limits of the budget that the stats exceed
+ */
+export const checkRenderBudget = (
+  stats: RenderStatsSnapshot,
+  budget: RenderBudget = {}
+): string[] => {
+  const limits = { ...DEFAULT_RENDER_BUDGET, ...budget };
+  const warnings: string[] = [];
+
+  if (stats.drawCalls > limits.drawCalls) {
+    warnings.push(
+      `${stats.drawCalls} draw calls (budget ${limits.drawCalls}): merge meshes or share materials`
+    );
+  }
+  if (stats.triangles > limits.triangles) {
+    warnings.push(
+      `${stats.triangles.toLocaleString()} triangles (budget ${limits.triangles.toLocaleString()}): lower segment counts`
+    );
+  }
+  if (stats.geometries > limits.geometries) {
+    warnings.push(
+      `${stats.geometries} geometries (budget ${limits.geometries}): reuse geometries`
+    );
+  }
+  if (stats.textures > limits.textures) {
+    warnings.push(`${stats.textures} textures (budget ${limits.textures})`);
+  }
+  if (stats.frameTime > limits.frameTime) {
+    warnings.push(
+      `${stats.frameTime.toFixed(1)} ms per frame (budget ${limits.frameTime.toFixed(1)} ms)`
+    );
+  }
+
+  return warnings;
+};
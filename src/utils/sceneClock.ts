@@ -0,0 +1,84 @@
+// Longest frame passed to scenes: a slow frame or a stall (debugger, busy
+// main thread) slows the scene down instead of making it jump
+export const DEFAULT_MAX_DELTA = 0.1;
+
+// Scene time advanced by one frame step while paused
+export const STEP_DURATION = 1 / 60;
+
+export const CLOCK_SPEEDS = [0.1, 0.25, 0.5, 1, 2, 4];
+
+/**
+ * Scene time, as opposed to wall-clock time: it can be paused, slowed
+ * down, sped up and stepped one frame at a time. Scenes and tours are
+ * driven by the time this clock hands out.
+ */
+export class SceneClock {
+  speed = 1;
+  maxDelta = DEFAULT_MAX_DELTA;
+
+  private paused = false;
+  private pendingSteps = 0;
+  private elapsed = 0;
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Scene time in seconds since the scene started
+   */
+  get elapsedTime(): number {
+    return this.elapsed;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  play(): void {
+    this.paused = false;
+    this.pendingSteps = 0;
+  }
+
+  /**
+   * Advances a paused clock by a single frame on the next tick
+   */
+  step(): void {
+    if (this.paused) {
+      this.pendingSteps++;
+    }
+  }
+
+  reset(): void {
+    this.elapsed = 0;
+    this.pendingSteps = 0;
+  }
+
+  /**
+   * Converts real time elapsed since the last frame into scene time
+   *
+   * @param realDelta - Wall-clock seconds since the last frame
+   * @returns Scene seconds to advance by, 0 while paused
+   */
+  tick(realDelta: number): number {
+    let delta: number;
+    if (this.paused) {
+      if (this.pendingSteps === 0) return 0;
+      this.pendingSteps--;
+      delta = STEP_DURATION;
+    } else {
+      delta = Math.min(Math.max(realDelta, 0), this.maxDelta) * this.speed;
+    }
+    this.elapsed += delta;
+    return delta;
+  }
+
+  /**
+   * Advances by an exact amount of scene time, ignoring pause, speed and
+   * clamping, for fixed-timestep rendering
+   */
+  advance(delta: number): number {
+    this.elapsed += delta;
+    return delta;
+  }
+}
@@ -0,0 +1,112 @@
+import * as THREE from 'three';
+import { isPreviewHelper } from './previewHelpers';
+
+/**
+ * Children of an object as shown in the outliner, without the preview's
+ * own helpers
+ */
+export const listChildren = (object: THREE.Object3D): THREE.Object3D[] =>
+  object.children.filter((child) => !isPreviewHelper(child));
+
+/**
+ * Kind of an object, e.g. "Mesh · Box" or "DirectionalLight"
+ */
+export const describeType = (object: THREE.Object3D): string => {
+  if (object instanceof THREE.Mesh) {
+    const geometry = (object.geometry as THREE.BufferGeometry).type.replace(
+      /Geometry$/,
+      ''
+    );
+    return `Mesh · ${geometry}`;
+  }
+  return object.type;
+};
+
+/**
+ * Label of an object: its name when the scene gave it one, its kind
+ * otherwise
+ */
+export const describeObject = (object: THREE.Object3D): string =>
+  object.name || describeType(object);
+
+/**
+ * Ancestors of an object up to (excluding) the root, closest last
+ */
+export const getAncestors = (
+  object: THREE.Object3D,
+  root: THREE.Object3D
+): THREE.Object3D[] => {
+  const ancestors: THREE.Object3D[] = [];
+  let current = object.parent;
+  while (current && current !== root) {
+    ancestors.unshift(current);
+    current = current.parent;
+  }
+  return ancestors;
+};
+
+const getColorTarget = (
+  object: THREE.Object3D
+): { color: THREE.Color } | null => {
+  if (object instanceof THREE.Light) return object;
+
+  if (object instanceof THREE.Mesh) {
+    // Multi-material meshes have no single colour to edit
+    const material = object.material as THREE.Material | THREE.Material[];
+    if (!Array.isArray(material) && 'color' in material) {
+      return material as THREE.MeshStandardMaterial;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Colour of a light, or of a mesh's material, as a `#rrggbb` string
+ *
+ * @returns `undefined` when the object has no editable colour
+ */
+export const getObjectColor = (object: THREE.Object3D): string | undefined => {
+  const target = getColorTarget(object);
+  return target ? `#${target.color.getHexString()}` : undefined;
+};
+
+/**
+ * Sets the colour returned by `getObjectColor`. Shared materials change
+ * on every mesh using them.
+ */
+export const setObjectColor = (object: THREE.Object3D, color: string): void => {
+  getColorTarget(object)?.color.set(color);
+};
+
+/**
+ * Position of an object in the tree as child indices from the root, as
+ * listed by `listChildren`. Stays valid across reloads as long as the
+ * scene builds the same objects in the same order.
+ */
+export const getObjectIndexPath = (
+  object: THREE.Object3D,
+  root: THREE.Object3D
+): number[] => {
+  const path: number[] = [];
+  let current = object;
+  while (current !== root && current.parent) {
+    path.unshift(listChildren(current.parent).indexOf(current));
+    current = current.parent;
+  }
+  return path;
+};
+
+/**
+ * Finds the object at a path returned by `getObjectIndexPath`
+ */
+export const resolveObjectPath = (
+  root: THREE.Object3D,
+  path: number[]
+): THREE.Object3D | undefined => {
+  let current: THREE.Object3D | undefined = root;
+  for (const index of path) {
+    current = current && listChildren(current)[index];
+  }
+  return current;
+};
@@ -0,0 +1,123 @@
+import type {
+  SceneParameter,
+  SceneParameterValue,
+  SceneParameterValues,
+} from '../types/scene';
+
+// URL search params holding parameter values are prefixed to keep them apart
+// from other preview state
+const URL_PREFIX = 'p.';
+
+export const getDefaultParameterValues = (
+  parameters: Record<string, SceneParameter>
+): SceneParameterValues =>
+  Object.fromEntries(
+    Object.entries(parameters).map(([name, parameter]) => [
+      name,
+      parameter.default,
+    ])
+  );
+
+/**
+ * Parses a value read from the URL, returning undefined when it is not
+ * valid for the parameter. Numbers are clamped to their range.
+ */
+export const parseParameterValue = (
+  parameter: SceneParameter,
+  raw: string
+): SceneParameterValue | undefined => {
+  switch (parameter.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw === '' || !Number.isFinite(value)) return undefined;
+      return Math.min(parameter.max, Math.max(parameter.min, value));
+    }
+    case 'color': {
+      if (!/^[0-9a-f]{6}$/i.test(raw)) return undefined;
+      return parseInt(raw, 16);
+    }
+    case 'boolean':
+      if (raw === '1' || raw === 'true') return true;
+      if (raw === '0' || raw === 'false') return false;
+      return undefined;
+    case 'enum':
+      return parameter.options.includes(raw) ? raw : undefined;
+  }
+};
+
+export const serializeParameterValue = (
+  parameter: SceneParameter,
+  value: SceneParameterValue
+): string => {
+  switch (parameter.type) {
+    case 'color':
+      return formatColor(value as number).slice(1);
+    case 'boolean':
+      return value ? '1' : '0';
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Formats a hex colour number as a CSS colour (e.g. 0xff0000 -> '#ff0000')
+ */
+export const formatColor = (color: number): string =>
+  `#${color.toString(16).padStart(6, '0')}`;
+
+/**
+ * Reads parameter values from URL search params, falling back to defaults
+ * for missing or invalid values.
+ */
+export const readParametersFromSearch = (
+  parameters: Record<string, SceneParameter>,
+  searchParams: URLSearchParams
+): SceneParameterValues => {
+  const values = getDefaultParameterValues(parameters);
+
+  for (const [name, parameter] of Object.entries(parameters)) {
+    const raw = searchParams.get(URL_PREFIX + name);
+    if (raw === null) continue;
+
+    const value = parseParameterValue(parameter, raw);
+    if (value === undefined) {
+      console.warn(`Ignoring invalid value "${raw}" for parameter ${name}`);
+      continue;
+    }
+    values[name] = value;
+  }
+
+  return values;
+};
+
+/**
+ * Names of the parameters URL search params set, e.g. from a shared link
+ */
+export const getParametersInSearch = (
+  parameters: Record<string, SceneParameter>,
+  searchParams: URLSearchParams
+): string[] =>
+  Object.keys(parameters).filter((name) => searchParams.has(URL_PREFIX + name));
+
+/**
+ * Writes parameter values into URL search params. Values equal to their
+ * default are left out so shared links stay short.
+ */
+export const writeParametersToSearch = (
+  parameters: Record<string, SceneParameter>,
+  values: SceneParameterValues,
+  searchParams: URLSearchParams
+): URLSearchParams => {
+  const next = new URLSearchParams(searchParams);
+
+  for (const [name, parameter] of Object.entries(parameters)) {
+    const value = values[name];
+    if (value === undefined || value === parameter.default) {
+      next.delete(URL_PREFIX + name);
+    } else {
+      next.set(URL_PREFIX + name, serializeParameterValue(parameter, value));
+    }
+  }
+
+  return next;
+};
@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import type { SceneViewConfig } from '../types/scene';
+
+/**
+ * Scene view with every preview default filled in
+ */
+export interface ResolvedSceneView {
+  cameraPosition: THREE.Vector3;
+  target: THREE.Vector3;
+  fov: number;
+  near: number;
+  far: number;
+  zoomMin: number;
+  zoomMax: number;
+  background: THREE.ColorRepresentation | null;
+  showGrid: boolean;
+  gridSize: number;
+}
+
+const DEFAULT_CAMERA_POSITION = new THREE.Vector3(15, 10, 15);
+const DEFAULT_TARGET = new THREE.Vector3(0, 2, 0);
+const DEFAULT_GRID_SIZE = 50;
+const DEFAULT_ZOOM = { min: 5, max: 50 };
+
+/**
+ * Merges a scene's optional view config with the preview defaults.
+ * When only `bounds` is given, the camera target, grid, zoom range, far
+ * plane and initial camera distance are derived from it so the whole
+ * scene fits.
+ */
+export const resolveSceneView = (
+  config: SceneViewConfig = {}
+): ResolvedSceneView => {
+  const { camera = {}, bounds } = config;
+  const hasBounds = bounds !== undefined && !bounds.isEmpty();
+  const target = (
+    camera.target ??
+    (hasBounds ? bounds.getCenter(new THREE.Vector3()) : DEFAULT_TARGET)
+  ).clone();
+
+  let gridSize = DEFAULT_GRID_SIZE;
+  let zoomMax = DEFAULT_ZOOM.max;
+  let cameraPosition = DEFAULT_CAMERA_POSITION.clone();
+
+  if (hasBounds) {
+    const size = bounds.getSize(new THREE.Vector3());
+    const diagonal = size.length();
+
+    // The grid is centred on the origin, so it must reach the farthest
+    // edge of the bounds on either side
+    gridSize = Math.ceil(
+      2 *
+        Math.max(
+          Math.abs(bounds.min.x),
+          Math.abs(bounds.max.x),
+          Math.abs(bounds.min.z),
+          Math.abs(bounds.max.z)
+        )
+    );
+    zoomMax = Math.max(DEFAULT_ZOOM.max, diagonal * 1.5);
+
+    // Same viewing angle as the default camera, pulled back to fit the bounds
+    const direction = DEFAULT_CAMERA_POSITION.clone()
+      .sub(DEFAULT_TARGET)
+      .normalize();
+    cameraPosition = target.clone().addScaledVector(direction, diagonal * 0.8);
+  }
+
+  if (camera.position) {
+    cameraPosition = camera.position.clone();
+  }
+
+  const zoomMin = config.zoom?.min ?? DEFAULT_ZOOM.min;
+  zoomMax = config.zoom?.max ?? zoomMax;
+
+  return {
+    cameraPosition,
+    target,
+    fov: camera.fov ?? 75,
+    near: camera.near ?? 0.1,
+    far: camera.far ?? Math.max(1000, zoomMax * 4),
+    zoomMin,
+    zoomMax,
+    background: config.background === undefined ? 0x87ceeb : config.background,
+    showGrid: config.showGrid ?? true,
+    gridSize,
+  };
+};
@@ -0,0 +1,112 @@
+import * as THREE from 'three';
+import { withPreviewHelpersHidden } from './previewHelpers';
+
+export interface ScreenshotOptions {
+  width: number;
+  height: number;
+
+  /**
+   * Leave the background out so the PNG has an alpha channel
+   */
+  transparent: boolean;
+}
+
+export interface ScreenshotPreset {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const SCREENSHOT_PRESETS: ScreenshotPreset[] = [
+  { label: 'Full HD (1920×1080)', width: 1920, height: 1080 },
+  { label: 'QHD (2560×1440)', width: 2560, height: 1440 },
+  { label: '4K (3840×2160)', width: 3840, height: 2160 },
+  { label: 'Square (2048×2048)', width: 2048, height: 2048 },
+  { label: 'Portrait (1080×1920)', width: 1080, height: 1920 },
+];
+
+/**
+ * Renders the scene from the camera's point of view into an offscreen
+ * target of any size and encodes it as a PNG. The on-screen canvas is left
+ * untouched, and preview helpers such as the grid are hidden.
+ *
+ * The camera keeps its vertical field of view; other aspect ratios than
+ * the window's show more or less of the scene on the sides.
+ */
+export const captureScreenshot = async (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.PerspectiveCamera,
+  { width, height, transparent }: ScreenshotOptions
+): Promise<Blob> => {
+  const maxSize = renderer.capabilities.maxTextureSize;
+  if (width > maxSize || height > maxSize) {
+    throw new Error(
+      `${width}×${height} is larger than this GPU supports (${maxSize}px)`
+    );
+  }
+
+  const target = new THREE.WebGLRenderTarget(width, height, {
+    samples: 4,
+    colorSpace: THREE.SRGBColorSpace,
+  });
+  const shotCamera = camera.clone();
+  shotCamera.aspect = width / height;
+  shotCamera.updateProjectionMatrix();
+
+  const background = scene.background;
+  const clearAlpha = renderer.getClearAlpha();
+  const pixels = new Uint8Array(width * height * 4);
+
+  try {
+    if (transparent) {
+      scene.background = null;
+      renderer.setClearAlpha(0);
+    }
+    renderer.setRenderTarget(target);
+    withPreviewHelpersHidden(scene, () => renderer.render(scene, shotCamera));
+    await renderer.readRenderTargetPixelsAsync(
+      target,
+      0,
+      0,
+      width,
+      height,
+      pixels
+    );
+  } finally {
+    renderer.setRenderTarget(null);
+    scene.background = background;
+    renderer.setClearAlpha(clearAlpha);
+    target.dispose();
+  }
+
+  return encodePng(pixels, width, height);
+};
+
+const encodePng = (
+  pixels: Uint8Array,
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  const image = context.createImageData(width, height);
+
+  // WebGL rows start at the bottom, image rows at the top
+  const rowSize = width * 4;
+  for (let y = 0; y < height; y++) {
+    const source = (height - 1 - y) * rowSize;
+    image.data.set(pixels.subarray(source, source + rowSize), y * rowSize);
+  }
+  context.putImageData(image, 0, 0);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error('Could not encode the PNG')),
+      'image/png'
+    )
+  );
+};
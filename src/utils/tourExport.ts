@@ -0,0 +1,65 @@
+import type * as THREE from 'three';
+import type { TourPoint } from '../types/scene';
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const vectorToArray = (vector: THREE.Vector3): [number, number, number] => [
+  round(vector.x),
+  round(vector.y),
+  round(vector.z),
+];
+
+const formatVector = (vector: THREE.Vector3): string =>
+  `new THREE.Vector3(${vectorToArray(vector).join(', ')})`;
+
+/**
+ * Generates a getTourPoints() method ready to paste into a scene class
+ */
+export const tourPointsToTypeScript = (points: TourPoint[]): string => {
+  const entries = points.map((point) => {
+    const lines = [
+      `        name: ${JSON.stringify(point.name)},`,
+      `        description: ${JSON.stringify(point.description)},`,
+      `        cameraPosition: ${formatVector(point.cameraPosition)},`,
+      `        lookAtTarget: ${formatVector(point.lookAtTarget)},`,
+      `        duration: ${round(point.duration)},`,
+    ];
+    if (point.transitionDuration !== undefined) {
+      lines.push(
+        `        transitionDuration: ${round(point.transitionDuration)},`
+      );
+    }
+    if (point.easing) {
+      lines.push(`        easing: '${point.easing}',`);
+    }
+    if (point.waypoints?.length) {
+      lines.push(
+        `        waypoints: [${point.waypoints.map(formatVector).join(', ')}],`
+      );
+    }
+    return `      {\n${lines.join('\n')}\n      },`;
+  });
+
+  return [
+    '  getTourPoints(): TourPoint[] {',
+    '    return [',
+    ...entries,
+    '    ];',
+    '  }',
+  ].join('\n');
+};
+
+/**
+ * Serialises tour points to JSON, with vectors as [x, y, z] arrays
+ */
+export const tourPointsToJson = (points: TourPoint[]): string =>
+  JSON.stringify(
+    points.map((point) => ({
+      ...point,
+      cameraPosition: vectorToArray(point.cameraPosition),
+      lookAtTarget: vectorToArray(point.lookAtTarget),
+      waypoints: point.waypoints?.map(vectorToArray),
+    })),
+    null,
+    2
+  );
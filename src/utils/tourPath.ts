@@ -0,0 +1,143 @@
+import * as THREE from 'three';
+import type { TourPoint } from '../types/scene';
+import type { CameraPose } from './tourPlayer';
+
+// Samples per curve segment used to build the arc-length table
+const SAMPLES_PER_SEGMENT = 64;
+
+/**
+ * Smooth camera path through every tour point (and their waypoints),
+ * parameterised by distance so the camera moves at a constant speed.
+ *
+ * Camera positions follow a centripetal Catmull-Rom curve; look-at targets
+ * follow a second curve through the tour points' targets, kept in step with
+ * the tour point the camera is travelling towards.
+ */
+export class TourPath {
+  readonly length: number;
+
+  private readonly positionCurve: THREE.CatmullRomCurve3;
+  private readonly targetCurve: THREE.CatmullRomCurve3;
+  private readonly closed: boolean;
+  private readonly pointCount: number;
+
+  // Index of each tour point among the position curve's control points
+  private readonly pointControlIndices: number[] = [];
+  private readonly controlCount: number;
+
+  // Arc-length table: distances[i] is the length up to t = i / (n - 1)
+  private readonly distances: number[] = [];
+
+  constructor(points: TourPoint[], closed = false) {
+    if (points.length < 2) {
+      throw new Error('A tour path needs at least two tour points');
+    }
+
+    const controls: THREE.Vector3[] = [];
+    points.forEach((point, index) => {
+      // Waypoints lead into their point, skip them for the very first point
+      // of an open path since there is nothing before it
+      if (index > 0 || closed) {
+        controls.push(...(point.waypoints ?? []));
+      }
+      this.pointControlIndices.push(controls.length);
+      controls.push(point.cameraPosition);
+    });
+
+    // In a closed path the first point's waypoints come after the last point
+    if (closed) {
+      const leading = points[0].waypoints?.length ?? 0;
+      const rotated = [
+        ...controls.slice(leading),
+        ...controls.slice(0, leading),
+      ];
+      controls.splice(0, controls.length, ...rotated);
+      for (let i = 0; i < this.pointControlIndices.length; i++) {
+        this.pointControlIndices[i] -= leading;
+      }
+    }
+
+    this.closed = closed;
+    this.pointCount = points.length;
+    this.controlCount = controls.length;
+    this.positionCurve = new THREE.CatmullRomCurve3(
+      controls,
+      closed,
+      'centripetal'
+    );
+    this.targetCurve = new THREE.CatmullRomCurve3(
+      points.map((point) => point.lookAtTarget),
+      closed,
+      'centripetal'
+    );
+
+    const samples =
+      SAMPLES_PER_SEGMENT * (closed ? controls.length : controls.length - 1);
+    const previous = this.positionCurve.getPoint(0);
+    const current = new THREE.Vector3();
+    let total = 0;
+    this.distances.push(0);
+    for (let i = 1; i <= samples; i++) {
+      this.positionCurve.getPoint(i / samples, current);
+      total += current.distanceTo(previous);
+      this.distances.push(total);
+      previous.copy(current);
+    }
+    this.length = total;
+  }
+
+  /**
+   * Camera pose at a distance along the path
+   *
+   * @returns The pose and the index of the last tour point passed
+   */
+  sample(
+    distance: number,
+    pose: CameraPose
+  ): { pose: CameraPose; pointIndex: number } {
+    const t = this.distanceToT(THREE.MathUtils.clamp(distance, 0, this.length));
+    this.positionCurve.getPoint(t, pose.position);
+
+    // Which pair of tour points the camera is between, and how far along
+    const segments = this.closed ? this.controlCount : this.controlCount - 1;
+    const control = t * segments;
+    let pointIndex = 0;
+    while (
+      pointIndex < this.pointCount - 1 &&
+      this.pointControlIndices[pointIndex + 1] <= control
+    ) {
+      pointIndex++;
+    }
+    const start = this.pointControlIndices[pointIndex];
+    const end =
+      pointIndex + 1 < this.pointCount
+        ? this.pointControlIndices[pointIndex + 1]
+        : this.controlCount; // closed path: back to the first point
+    const fraction = end > start ? (control - start) / (end - start) : 0;
+
+    const targetSegments = this.closed ? this.pointCount : this.pointCount - 1;
+    this.targetCurve.getPoint(
+      Math.min(1, (pointIndex + fraction) / targetSegments),
+      pose.target
+    );
+
+    return { pose, pointIndex };
+  }
+
+  private distanceToT(distance: number): number {
+    const { distances } = this;
+    let low = 0;
+    let high = distances.length - 1;
+    while (low < high - 1) {
+      const mid = (low + high) >> 1;
+      if (distances[mid] <= distance) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    const span = distances[high] - distances[low];
+    const fraction = span > 0 ? (distance - distances[low]) / span : 0;
+    return (low + fraction) / (distances.length - 1);
+  }
+}
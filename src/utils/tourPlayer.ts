@@ -0,0 +1,225 @@
+import * as THREE from 'three';
+import type { TourConfig, TourPoint } from '../types/scene';
+import { ease } from './easing';
+import { TourPath } from './tourPath';
+
+/**
+ * Where the camera is and what it looks at
+ */
+export interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
+export interface TourPlayerCallbacks {
+  /**
+   * Called when the player starts flying to another tour point
+   */
+  onPointChange?: (index: number) => void;
+
+  /**
+   * Called after the last point's pause when the tour does not loop
+   */
+  onComplete?: () => void;
+}
+
+export const DEFAULT_TRANSITION_DURATION = 2;
+export const DEFAULT_PATH_SPEED = 4;
+
+/**
+ * Plays a tour: flies the camera from point to point, pauses at each one
+ * for its `duration`, and optionally moves on to the next point. Without
+ * auto-advance the player stops once the camera arrives, handing the
+ * camera back to the user's controls.
+ * In 'path' mode an auto-advancing tour instead glides along a TourPath
+ * through all points once the camera has reached the first one.
+ *
+ * The player owns no timers; it advances only when update() is called with
+ * the time elapsed, so it follows whatever clock drives the render loop.
+ */
+export class TourPlayer {
+  private points: TourPoint[] = [];
+  private index = 0;
+  private autoAdvance = false;
+  private loop = true;
+  private playing = false;
+  private path: TourPath | null = null;
+  private pathSpeed = DEFAULT_PATH_SPEED;
+  private closedPath = false;
+
+  private phase: 'transition' | 'dwell' | 'path' = 'transition';
+  private elapsed = 0;
+  private distance = 0;
+  private from: CameraPose = {
+    position: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+  };
+  private readonly pose: CameraPose = {
+    position: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+  };
+
+  private readonly callbacks: TourPlayerCallbacks;
+
+  constructor(callbacks: TourPlayerCallbacks = {}) {
+    this.callbacks = callbacks;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  get currentIndex(): number {
+    return this.index;
+  }
+
+  /**
+   * Starts flying from the current camera pose to a tour point
+   *
+   * @param autoAdvance - Move on to the next point after the pause, rather
+   * than stopping once the camera arrives
+   * @param loop - Go back to the first point after the last one
+   * @param config - Tour mode and path settings
+   */
+  start(
+    points: TourPoint[],
+    index: number,
+    from: CameraPose,
+    {
+      autoAdvance = true,
+      loop = true,
+      config = {},
+    }: { autoAdvance?: boolean; loop?: boolean; config?: TourConfig } = {}
+  ): void {
+    if (points.length === 0) return;
+
+    this.points = points;
+    this.autoAdvance = autoAdvance;
+    this.loop = loop;
+    this.pathSpeed = config.pathSpeed ?? DEFAULT_PATH_SPEED;
+    this.closedPath = config.closedPath ?? false;
+    this.path =
+      config.mode === 'path' && points.length >= 2
+        ? new TourPath(points, this.closedPath)
+        : null;
+    this.playing = true;
+    this.goTo(index, from);
+  }
+
+  /**
+   * Flies to another point of the running tour
+   */
+  goTo(index: number, from: CameraPose, autoAdvance = this.autoAdvance): void {
+    if (this.points.length === 0) return;
+
+    this.index =
+      ((index % this.points.length) + this.points.length) % this.points.length;
+    this.autoAdvance = autoAdvance;
+    this.playing = true;
+    this.phase = 'transition';
+    this.elapsed = 0;
+    this.from = {
+      position: from.position.clone(),
+      target: from.target.clone(),
+    };
+    this.callbacks.onPointChange?.(this.index);
+  }
+
+  stop(): void {
+    this.playing = false;
+  }
+
+  /**
+   * Advances the tour
+   *
+   * @param deltaTime - Time in seconds since the last update
+   * @returns The camera pose to apply, or null when the tour is not playing
+   */
+  update(deltaTime: number): CameraPose | null {
+    if (!this.playing) return null;
+
+    const point = this.points[this.index];
+    this.elapsed += deltaTime;
+
+    if (this.phase === 'path' && this.path) {
+      return this.updatePath(deltaTime);
+    }
+
+    if (this.phase === 'transition') {
+      const duration = point.transitionDuration ?? DEFAULT_TRANSITION_DURATION;
+      const t = duration > 0 ? ease(point.easing, this.elapsed / duration) : 1;
+
+      this.pose.position.lerpVectors(
+        this.from.position,
+        point.cameraPosition,
+        t
+      );
+      this.pose.target.lerpVectors(this.from.target, point.lookAtTarget, t);
+
+      if (this.elapsed >= duration) {
+        this.phase = 'dwell';
+        this.elapsed = 0;
+
+        if (!this.autoAdvance) {
+          this.playing = false;
+          return this.pose;
+        }
+
+        // Reached the start of the path: glide from here on
+        if (this.path && this.index === 0) {
+          this.phase = 'path';
+          this.distance = 0;
+        }
+      }
+      return this.pose;
+    }
+
+    this.pose.position.copy(point.cameraPosition);
+    this.pose.target.copy(point.lookAtTarget);
+
+    if (this.autoAdvance && this.elapsed >= point.duration) {
+      const isLast = this.index === this.points.length - 1;
+      if (isLast && !this.loop) {
+        this.playing = false;
+        this.callbacks.onComplete?.();
+      } else {
+        this.goTo(this.index + 1, this.pose);
+      }
+    }
+
+    return this.pose;
+  }
+
+  private updatePath(deltaTime: number): CameraPose | null {
+    const path = this.path!;
+    this.distance += this.pathSpeed * deltaTime;
+
+    if (this.distance >= path.length) {
+      this.setPathIndex(this.closedPath ? 0 : this.points.length - 1);
+      if (!this.loop) {
+        path.sample(path.length, this.pose);
+        this.playing = false;
+        this.callbacks.onComplete?.();
+        return this.pose;
+      }
+      if (!this.closedPath) {
+        // Fly back to the start, then glide again
+        path.sample(path.length, this.pose);
+        this.goTo(0, this.pose);
+        return this.pose;
+      }
+      this.distance -= path.length;
+    }
+
+    const { pointIndex } = path.sample(this.distance, this.pose);
+    this.setPathIndex(pointIndex);
+    return this.pose;
+  }
+
+  private setPathIndex(index: number): void {
+    if (index !== this.index) {
+      this.index = index;
+      this.callbacks.onPointChange?.(index);
+    }
+  }
+}
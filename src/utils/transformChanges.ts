@@ -0,0 +1,135 @@
+import type * as THREE from 'three';
+import { describeObject, describeType, listChildren } from './sceneGraph';
+
+export interface XYZ {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Position, rotation (radians) and scale of an object, in the
+ * `{ x, y, z }` shape used by the primitives' options
+ */
+export interface Transform {
+  position: XYZ;
+  rotation: XYZ;
+  scale: XYZ;
+}
+
+export interface TransformChange {
+  object: THREE.Object3D;
+  before: Transform;
+  after: Transform;
+}
+
+const TRANSFORM_KEYS = ['position', 'rotation', 'scale'] as const;
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const toXYZ = ({ x, y, z }: XYZ): XYZ => ({
+  x: round(x),
+  y: round(y),
+  z: round(z),
+});
+
+export const readTransform = (object: THREE.Object3D): Transform => ({
+  position: toXYZ(object.position),
+  rotation: toXYZ(object.rotation),
+  scale: toXYZ(object.scale),
+});
+
+const xyzEqual = (a: XYZ, b: XYZ): boolean =>
+  a.x === b.x && a.y === b.y && a.z === b.z;
+
+/**
+ * Transform properties that differ between two transforms
+ */
+export const changedKeys = (
+  before: Transform,
+  after: Transform
+): (keyof Transform)[] =>
+  TRANSFORM_KEYS.filter((key) => !xyzEqual(before[key], after[key]));
+
+/**
+ * Location of an object in the scene, e.g. `House #3 › Mesh · Cone #1`.
+ * Indices count the scene's own objects only, in creation order.
+ */
+export const getObjectPath = (
+  object: THREE.Object3D,
+  root: THREE.Object3D
+): string => {
+  const segments: string[] = [];
+  let current: THREE.Object3D | null = object;
+  while (current && current !== root && current.parent) {
+    const index = listChildren(current.parent).indexOf(current);
+    segments.unshift(`${describeObject(current)} #${index}`);
+    current = current.parent;
+  }
+  return segments.join(' › ');
+};
+
+/**
+ * Collapses the log to one change per object, from its original
+ * transform to its latest one, skipping objects moved back in place
+ */
+export const netChanges = (changes: TransformChange[]): TransformChange[] => {
+  const byObject = new Map<THREE.Object3D, TransformChange>();
+  for (const { object, before, after } of changes) {
+    const existing = byObject.get(object);
+    byObject.set(object, {
+      object,
+      before: existing?.before ?? before,
+      after,
+    });
+  }
+  return [...byObject.values()].filter(
+    ({ before, after }) => changedKeys(before, after).length > 0
+  );
+};
+
+const formatXYZ = ({ x, y, z }: XYZ): string => `{ x: ${x}, y: ${y}, z: ${z} }`;
+
+/**
+ * Generates option snippets to paste into the `create*()` calls (or
+ * `.set()` calls) that made each changed object. The previous values are
+ * included so the matching code can be found with a search.
+ */
+export const changesToTypeScript = (
+  changes: TransformChange[],
+  root: THREE.Object3D
+): string =>
+  netChanges(changes)
+    .map(({ object, before, after }) => {
+      const keys = changedKeys(before, after);
+      return [
+        `// ${getObjectPath(object, root)}`,
+        ...keys.map((key) => `//   was ${key}: ${formatXYZ(before[key])}`),
+        ...keys.map((key) => `${key}: ${formatXYZ(after[key])},`),
+      ].join('\n');
+    })
+    .join('\n\n');
+
+/**
+ * Serialises the net changes to JSON, one entry per changed object with
+ * only the properties that changed
+ */
+export const changesToJson = (
+  changes: TransformChange[],
+  root: THREE.Object3D
+): string =>
+  JSON.stringify(
+    netChanges(changes).map(({ object, before, after }) => ({
+      path: getObjectPath(object, root),
+      name: object.name || undefined,
+      type: describeType(object),
+      ...Object.fromEntries(
+        changedKeys(before, after).map((key) => [
+          key,
+          { from: before[key], to: after[key] },
+        ])
+      ),
+    })),
+    null,
+    2
+  );
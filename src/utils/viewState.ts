@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import type { TourConfig } from '../types/scene';
+import { DEFAULT_DEBUG_VIEW, type DebugViewOptions } from './debugView';
+
+/**
+ * Camera orbit around a focus point, as used by the preview's controls
+ */
+export interface OrbitState {
+  phi: number;
+  theta: number;
+  radius: number;
+  lookAtTarget: THREE.Vector3;
+}
+
+/**
+ * Preview state that can be shared through a link. Missing fields keep
+ * the scene's defaults.
+ */
+export interface ViewState {
+  orbit?: OrbitState;
+  tourPoint?: number;
+  tourMode?: TourConfig['mode'];
+  hotspot?: string;
+  showStats?: boolean;
+  debugView?: DebugViewOptions;
+}
+
+const ORBIT_KEY = 'cam';
+const TOUR_POINT_KEY = 'tp';
+const TOUR_MODE_KEY = 'mode';
+const HOTSPOT_KEY = 'hotspot';
+const STATS_KEY = 'stats';
+const DEBUG_KEY = 'debug';
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Formats an orbit as `phi,theta,radius,x,y,z`
+ */
+export const serializeOrbit = ({
+  phi,
+  theta,
+  radius,
+  lookAtTarget,
+}: OrbitState): string =>
+  [phi, theta, radius, lookAtTarget.x, lookAtTarget.y, lookAtTarget.z]
+    .map(round)
+    .join(',');
+
+export const parseOrbit = (raw: string): OrbitState | undefined => {
+  const numbers = raw.split(',').map(Number);
+  if (numbers.length !== 6 || !numbers.every(Number.isFinite)) {
+    return undefined;
+  }
+  const [phi, theta, radius, x, y, z] = numbers;
+  if (radius <= 0) return undefined;
+  return { phi, theta, radius, lookAtTarget: new THREE.Vector3(x, y, z) };
+};
+
+/**
+ * Reads the shared view from URL search params, skipping invalid values
+ */
+export const readViewStateFromSearch = (
+  searchParams: URLSearchParams
+): ViewState => {
+  const state: ViewState = {};
+
+  const orbit = searchParams.get(ORBIT_KEY);
+  if (orbit !== null) {
+    state.orbit = parseOrbit(orbit);
+    if (!state.orbit) {
+      console.warn(`Ignoring invalid camera "${orbit}" in the URL`);
+    }
+  }
+
+  const tourPoint = Number(searchParams.get(TOUR_POINT_KEY) || NaN);
+  if (Number.isInteger(tourPoint) && tourPoint >= 1) {
+    state.tourPoint = tourPoint - 1;
+  }
+
+  const tourMode = searchParams.get(TOUR_MODE_KEY);
+  if (tourMode === 'points' || tourMode === 'path') {
+    state.tourMode = tourMode;
+  }
+
+  state.hotspot = searchParams.get(HOTSPOT_KEY) ?? undefined;
+  state.showStats = searchParams.get(STATS_KEY) === '1' || undefined;
+
+  // Debug modes are listed by name, e.g. debug=wireframe,axes
+  const debug = searchParams.get(DEBUG_KEY);
+  if (debug) {
+    const enabled = debug.split(',');
+    const debugView = { ...DEFAULT_DEBUG_VIEW };
+    for (const key of Object.keys(debugView) as (keyof DebugViewOptions)[]) {
+      debugView[key] = enabled.includes(key);
+    }
+    state.debugView = debugView;
+  }
+
+  return state;
+};
+
+/**
+ * Writes the shared view into URL search params, removing the entries of
+ * fields that are not set. Tour points are stored 1-based for readability.
+ */
+export const writeViewStateToSearch = (
+  state: ViewState,
+  searchParams: URLSearchParams
+): URLSearchParams => {
+  const next = new URLSearchParams(searchParams);
+  const enabledDebugModes = Object.entries(state.debugView ?? {})
+    .filter(([, enabled]) => enabled)
+    .map(([key]) => key);
+  const debugList =
+    enabledDebugModes.length > 0 ? enabledDebugModes.join(',') : undefined;
+
+  const entries: [string, string | undefined][] = [
+    [ORBIT_KEY, state.orbit && serializeOrbit(state.orbit)],
+    [
+      TOUR_POINT_KEY,
+      state.tourPoint === undefined ? undefined : String(state.tourPoint + 1),
+    ],
+    [TOUR_MODE_KEY, state.tourMode],
+    [HOTSPOT_KEY, state.hotspot],
+    [STATS_KEY, state.showStats ? '1' : undefined],
+    [DEBUG_KEY, debugList],
+  ];
+
+  for (const [key, value] of entries) {
+    if (value === undefined) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+  }
+
+  return next;
+};
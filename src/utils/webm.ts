@@ -0,0 +1,168 @@
+/**
+ * Minimal WebM (Matroska) writer for a single video track, enough for
+ * browsers and video players to play back encoded VP8/VP9 frames.
+ *
+ * Elements are built in memory and sized once the whole video is known,
+ * so there is no seeking index; clusters start on every key frame.
+ */
+
+export interface WebmFrame {
+  data: Uint8Array;
+  /** Presentation time in milliseconds */
+  timestamp: number;
+  keyFrame: boolean;
+}
+
+export interface WebmVideo {
+  codecId: 'V_VP8' | 'V_VP9';
+  width: number;
+  height: number;
+  /** Total duration in milliseconds */
+  duration: number;
+  frames: WebmFrame[];
+}
+
+interface EbmlElement {
+  id: number;
+  data: Uint8Array | EbmlElement[];
+}
+
+const element = (
+  id: number,
+  data: Uint8Array | EbmlElement[]
+): EbmlElement => ({ id, data });
+
+const uint = (id: number, value: number): EbmlElement => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return element(id, new Uint8Array(bytes));
+};
+
+const float = (id: number, value: number): EbmlElement => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const string = (id: number, value: string): EbmlElement =>
+  element(id, new TextEncoder().encode(value));
+
+const encodeId = (id: number): Uint8Array => {
+  const bytes: number[] = [];
+  while (id > 0) {
+    bytes.unshift(id & 0xff);
+    id = Math.floor(id / 256);
+  }
+  return new Uint8Array(bytes);
+};
+
+// Sizes always use the 8-byte form: simpler, and a few bytes don't matter
+const encodeSize = (size: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  for (let i = 7; i > 0; i--) {
+    bytes[i] = size % 256;
+    size = Math.floor(size / 256);
+  }
+  return bytes;
+};
+
+/**
+ * Flattens an element into byte chunks, returning its encoded length
+ */
+const serialize = (node: EbmlElement, chunks: Uint8Array[]): number => {
+  const id = encodeId(node.id);
+  const sizeIndex = chunks.length + 1;
+  chunks.push(id, new Uint8Array(0));
+
+  let size = 0;
+  if (node.data instanceof Uint8Array) {
+    chunks.push(node.data);
+    size = node.data.length;
+  } else {
+    for (const child of node.data) {
+      size += serialize(child, chunks);
+    }
+  }
+
+  const sizeBytes = encodeSize(size);
+  chunks[sizeIndex] = sizeBytes;
+  return id.length + sizeBytes.length + size;
+};
+
+const simpleBlock = (frame: WebmFrame, clusterTime: number): EbmlElement => {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  header[0] = 0x81; // track number 1
+  view.setInt16(1, Math.round(frame.timestamp - clusterTime));
+  header[3] = frame.keyFrame ? 0x80 : 0x00;
+
+  const data = new Uint8Array(header.length + frame.data.length);
+  data.set(header);
+  data.set(frame.data, header.length);
+  return element(0xa3, data);
+};
+
+const clusters = (frames: WebmFrame[]): EbmlElement[] => {
+  const result: EbmlElement[] = [];
+  let blocks: EbmlElement[] = [];
+  let clusterTime = 0;
+
+  frames.forEach((frame, index) => {
+    // Block times are 16-bit offsets from their cluster's time
+    if (
+      index === 0 ||
+      frame.keyFrame ||
+      frame.timestamp - clusterTime > 30000
+    ) {
+      clusterTime = Math.round(frame.timestamp);
+      blocks = [uint(0xe7, clusterTime)];
+      result.push(element(0x1f43b675, blocks));
+    }
+    blocks.push(simpleBlock(frame, clusterTime));
+  });
+
+  return result;
+};
+
+export const createWebm = (video: WebmVideo): Blob => {
+  const header = element(0x1a45dfa3, [
+    uint(0x4286, 1), // EBMLVersion
+    uint(0x42f7, 1), // EBMLReadVersion
+    uint(0x42f2, 4), // EBMLMaxIDLength
+    uint(0x42f3, 8), // EBMLMaxSizeLength
+    string(0x4282, 'webm'), // DocType
+    uint(0x4287, 2), // DocTypeVersion
+    uint(0x4285, 2), // DocTypeReadVersion
+  ]);
+
+  const segment = element(0x18538067, [
+    element(0x1549a966, [
+      uint(0x2ad7b1, 1000000), // TimestampScale: milliseconds
+      string(0x4d80, 'spendesk-3d-workshop'), // MuxingApp
+      string(0x5741, 'spendesk-3d-workshop'), // WritingApp
+      float(0x4489, video.duration), // Duration
+    ]),
+    element(0x1654ae6b, [
+      element(0xae, [
+        uint(0xd7, 1), // TrackNumber
+        uint(0x73c5, 1), // TrackUID
+        uint(0x83, 1), // TrackType: video
+        string(0x86, video.codecId),
+        element(0xe0, [
+          uint(0xb0, video.width), // PixelWidth
+          uint(0xba, video.height), // PixelHeight
+        ]),
+      ]),
+    ]),
+    ...clusters(video.frames),
+  ]);
+
+  const chunks: Uint8Array[] = [];
+  serialize(header, chunks);
+  serialize(segment, chunks);
+  return new Blob(chunks, { type: 'video/webm' });
+};